@@ -12,31 +12,50 @@ export {}
 /* prettier-ignore */
 declare module 'vue' {
   export interface GlobalComponents {
+    AlertRulesDrawer: typeof import('./src/components/layout/parts/AlertRulesDrawer.vue')['default']
     ApiKeyListEditor: typeof import('./src/components/provider/ApiKeyListEditor.vue')['default']
     AppHeader: typeof import('./src/components/layout/AppHeader.vue')['default']
     AppSidebar: typeof import('./src/components/layout/AppSidebar.vue')['default']
     BatchActionBar: typeof import('./src/components/provider/BatchActionBar.vue')['default']
+    ConfigBackupModal: typeof import('./src/components/provider/ConfigBackupModal.vue')['default']
     ContentHeader: typeof import('./src/components/layout/parts/ContentHeader.vue')['default']
     CustomHeadersEditor: typeof import('./src/components/provider/CustomHeadersEditor.vue')['default']
     HealthApiKeyTab: typeof import('./src/components/health/HealthApiKeyTab.vue')['default']
+    HealthBulkActionBar: typeof import('./src/components/health/HealthBulkActionBar.vue')['default']
+    HealthBulkResultModal: typeof import('./src/components/health/HealthBulkResultModal.vue')['default']
+    HealthHistoryDrawer: typeof import('./src/components/health/HealthHistoryDrawer.vue')['default']
+    HealthIssueBreakdown: typeof import('./src/components/health/HealthIssueBreakdown.vue')['default']
+    HealthListFilterBar: typeof import('./src/components/health/HealthListFilterBar.vue')['default']
     HealthModelTab: typeof import('./src/components/health/HealthModelTab.vue')['default']
     HealthOverviewTab: typeof import('./src/components/health/HealthOverviewTab.vue')['default']
     HealthPlatformTab: typeof import('./src/components/health/HealthPlatformTab.vue')['default']
+    JsonTree: typeof import('./src/components/common/JsonTree.vue')['default']
+    KpiDelta: typeof import('./src/components/dashboard/KpiDelta.vue')['default']
+    LatencyHistogramChart: typeof import('./src/components/log/LatencyHistogramChart.vue')['default']
+    LogFilterPresetModal: typeof import('./src/components/log/LogFilterPresetModal.vue')['default']
     MainLayout: typeof import('./src/components/layout/MainLayout.vue')['default']
     ModelDiffViewer: typeof import('./src/components/provider/ModelDiffViewer.vue')['default']
     ModelListEditor: typeof import('./src/components/provider/ModelListEditor.vue')['default']
     ModelRenameManager: typeof import('./src/components/provider/ModelRenameManager.vue')['default']
+    ModelStatusDetailDrawer: typeof import('./src/components/model-status/ModelStatusDetailDrawer.vue')['default']
+    ModelStatusPublishModal: typeof import('./src/components/model-status/ModelStatusPublishModal.vue')['default']
+    ModelStatusThresholdDrawer: typeof import('./src/components/model-status/ModelStatusThresholdDrawer.vue')['default']
+    ModelStatusTrendChart: typeof import('./src/components/model-status/ModelStatusTrendChart.vue')['default']
+    NAlert: typeof import('naive-ui')['NAlert']
     NBadge: typeof import('naive-ui')['NBadge']
     NButton: typeof import('naive-ui')['NButton']
     NButtonGroup: typeof import('naive-ui')['NButtonGroup']
     NCard: typeof import('naive-ui')['NCard']
     NCheckbox: typeof import('naive-ui')['NCheckbox']
+    NCheckboxGroup: typeof import('naive-ui')['NCheckboxGroup']
     NCollapse: typeof import('naive-ui')['NCollapse']
     NCollapseItem: typeof import('naive-ui')['NCollapseItem']
     NCollapseTransition: typeof import('naive-ui')['NCollapseTransition']
     NConfigProvider: typeof import('naive-ui')['NConfigProvider']
     NDataTable: typeof import('naive-ui')['NDataTable']
     NDatePicker: typeof import('naive-ui')['NDatePicker']
+    NDescriptions: typeof import('naive-ui')['NDescriptions']
+    NDescriptionsItem: typeof import('naive-ui')['NDescriptionsItem']
     NDialogProvider: typeof import('naive-ui')['NDialogProvider']
     NDivider: typeof import('naive-ui')['NDivider']
     NDrawer: typeof import('naive-ui')['NDrawer']
@@ -64,7 +83,11 @@ declare module 'vue' {
     NMenu: typeof import('naive-ui')['NMenu']
     NMessageProvider: typeof import('naive-ui')['NMessageProvider']
     NModal: typeof import('naive-ui')['NModal']
+    NotificationCenter: typeof import('./src/components/layout/parts/NotificationCenter.vue')['default']
+    NPopconfirm: typeof import('naive-ui')['NPopconfirm']
+    NPopover: typeof import('naive-ui')['NPopover']
     NProgress: typeof import('naive-ui')['NProgress']
+    NRadio: typeof import('naive-ui')['NRadio']
     NRadioButton: typeof import('naive-ui')['NRadioButton']
     NRadioGroup: typeof import('naive-ui')['NRadioGroup']
     NScrollbar: typeof import('naive-ui')['NScrollbar']
@@ -74,21 +97,30 @@ declare module 'vue' {
     NStatistic: typeof import('naive-ui')['NStatistic']
     NStep: typeof import('naive-ui')['NStep']
     NSteps: typeof import('naive-ui')['NSteps']
+    NSwitch: typeof import('naive-ui')['NSwitch']
     NTable: typeof import('naive-ui')['NTable']
     NTabPane: typeof import('naive-ui')['NTabPane']
     NTabs: typeof import('naive-ui')['NTabs']
     NTag: typeof import('naive-ui')['NTag']
     NText: typeof import('naive-ui')['NText']
     NThing: typeof import('naive-ui')['NThing']
+    NTimeline: typeof import('naive-ui')['NTimeline']
+    NTimelineItem: typeof import('naive-ui')['NTimelineItem']
     NTooltip: typeof import('naive-ui')['NTooltip']
     PageFooter: typeof import('./src/components/layout/parts/PageFooter.vue')['default']
     PageHeader: typeof import('./src/components/layout/parts/PageHeader.vue')['default']
     PageSider: typeof import('./src/components/layout/parts/PageSider.vue')['default']
+    PricingSettingsDrawer: typeof import('./src/components/dashboard/PricingSettingsDrawer.vue')['default']
     ProviderFormContent: typeof import('./src/components/provider/ProviderFormContent.vue')['default']
     ProviderGrid: typeof import('./src/components/provider/ProviderGrid.vue')['default']
     ProviderGridCard: typeof import('./src/components/provider/ProviderGridCard.vue')['default']
+    ProviderMigrationModal: typeof import('./src/components/provider/ProviderMigrationModal.vue')['default']
     ProviderTable: typeof import('./src/components/provider/ProviderTable.vue')['default']
     RankBarChart: typeof import('./src/components/dashboard/RankBarChart.vue')['default']
+    RequestErrorGroupPanel: typeof import('./src/components/log/RequestErrorGroupPanel.vue')['default']
+    RequestLatencyPanel: typeof import('./src/components/log/RequestLatencyPanel.vue')['default']
+    RequestLogDetailDrawer: typeof import('./src/components/log/RequestLogDetailDrawer.vue')['default']
+    RequestLogExportModal: typeof import('./src/components/log/RequestLogExportModal.vue')['default']
     RouterLink: typeof import('vue-router')['RouterLink']
     RouterView: typeof import('vue-router')['RouterView']
     SegmentedProgress: typeof import('./src/components/common/SegmentedProgress.vue')['default']
@@ -101,31 +133,50 @@ declare module 'vue' {
 
 // For TSX support
 declare global {
+  const AlertRulesDrawer: typeof import('./src/components/layout/parts/AlertRulesDrawer.vue')['default']
   const ApiKeyListEditor: typeof import('./src/components/provider/ApiKeyListEditor.vue')['default']
   const AppHeader: typeof import('./src/components/layout/AppHeader.vue')['default']
   const AppSidebar: typeof import('./src/components/layout/AppSidebar.vue')['default']
   const BatchActionBar: typeof import('./src/components/provider/BatchActionBar.vue')['default']
+  const ConfigBackupModal: typeof import('./src/components/provider/ConfigBackupModal.vue')['default']
   const ContentHeader: typeof import('./src/components/layout/parts/ContentHeader.vue')['default']
   const CustomHeadersEditor: typeof import('./src/components/provider/CustomHeadersEditor.vue')['default']
   const HealthApiKeyTab: typeof import('./src/components/health/HealthApiKeyTab.vue')['default']
+  const HealthBulkActionBar: typeof import('./src/components/health/HealthBulkActionBar.vue')['default']
+  const HealthBulkResultModal: typeof import('./src/components/health/HealthBulkResultModal.vue')['default']
+  const HealthHistoryDrawer: typeof import('./src/components/health/HealthHistoryDrawer.vue')['default']
+  const HealthIssueBreakdown: typeof import('./src/components/health/HealthIssueBreakdown.vue')['default']
+  const HealthListFilterBar: typeof import('./src/components/health/HealthListFilterBar.vue')['default']
   const HealthModelTab: typeof import('./src/components/health/HealthModelTab.vue')['default']
   const HealthOverviewTab: typeof import('./src/components/health/HealthOverviewTab.vue')['default']
   const HealthPlatformTab: typeof import('./src/components/health/HealthPlatformTab.vue')['default']
+  const JsonTree: typeof import('./src/components/common/JsonTree.vue')['default']
+  const KpiDelta: typeof import('./src/components/dashboard/KpiDelta.vue')['default']
+  const LatencyHistogramChart: typeof import('./src/components/log/LatencyHistogramChart.vue')['default']
+  const LogFilterPresetModal: typeof import('./src/components/log/LogFilterPresetModal.vue')['default']
   const MainLayout: typeof import('./src/components/layout/MainLayout.vue')['default']
   const ModelDiffViewer: typeof import('./src/components/provider/ModelDiffViewer.vue')['default']
   const ModelListEditor: typeof import('./src/components/provider/ModelListEditor.vue')['default']
   const ModelRenameManager: typeof import('./src/components/provider/ModelRenameManager.vue')['default']
+  const ModelStatusDetailDrawer: typeof import('./src/components/model-status/ModelStatusDetailDrawer.vue')['default']
+  const ModelStatusPublishModal: typeof import('./src/components/model-status/ModelStatusPublishModal.vue')['default']
+  const ModelStatusThresholdDrawer: typeof import('./src/components/model-status/ModelStatusThresholdDrawer.vue')['default']
+  const ModelStatusTrendChart: typeof import('./src/components/model-status/ModelStatusTrendChart.vue')['default']
+  const NAlert: typeof import('naive-ui')['NAlert']
   const NBadge: typeof import('naive-ui')['NBadge']
   const NButton: typeof import('naive-ui')['NButton']
   const NButtonGroup: typeof import('naive-ui')['NButtonGroup']
   const NCard: typeof import('naive-ui')['NCard']
   const NCheckbox: typeof import('naive-ui')['NCheckbox']
+  const NCheckboxGroup: typeof import('naive-ui')['NCheckboxGroup']
   const NCollapse: typeof import('naive-ui')['NCollapse']
   const NCollapseItem: typeof import('naive-ui')['NCollapseItem']
   const NCollapseTransition: typeof import('naive-ui')['NCollapseTransition']
   const NConfigProvider: typeof import('naive-ui')['NConfigProvider']
   const NDataTable: typeof import('naive-ui')['NDataTable']
   const NDatePicker: typeof import('naive-ui')['NDatePicker']
+  const NDescriptions: typeof import('naive-ui')['NDescriptions']
+  const NDescriptionsItem: typeof import('naive-ui')['NDescriptionsItem']
   const NDialogProvider: typeof import('naive-ui')['NDialogProvider']
   const NDivider: typeof import('naive-ui')['NDivider']
   const NDrawer: typeof import('naive-ui')['NDrawer']
@@ -153,7 +204,11 @@ declare global {
   const NMenu: typeof import('naive-ui')['NMenu']
   const NMessageProvider: typeof import('naive-ui')['NMessageProvider']
   const NModal: typeof import('naive-ui')['NModal']
+  const NotificationCenter: typeof import('./src/components/layout/parts/NotificationCenter.vue')['default']
+  const NPopconfirm: typeof import('naive-ui')['NPopconfirm']
+  const NPopover: typeof import('naive-ui')['NPopover']
   const NProgress: typeof import('naive-ui')['NProgress']
+  const NRadio: typeof import('naive-ui')['NRadio']
   const NRadioButton: typeof import('naive-ui')['NRadioButton']
   const NRadioGroup: typeof import('naive-ui')['NRadioGroup']
   const NScrollbar: typeof import('naive-ui')['NScrollbar']
@@ -163,21 +218,30 @@ declare global {
   const NStatistic: typeof import('naive-ui')['NStatistic']
   const NStep: typeof import('naive-ui')['NStep']
   const NSteps: typeof import('naive-ui')['NSteps']
+  const NSwitch: typeof import('naive-ui')['NSwitch']
   const NTable: typeof import('naive-ui')['NTable']
   const NTabPane: typeof import('naive-ui')['NTabPane']
   const NTabs: typeof import('naive-ui')['NTabs']
   const NTag: typeof import('naive-ui')['NTag']
   const NText: typeof import('naive-ui')['NText']
   const NThing: typeof import('naive-ui')['NThing']
+  const NTimeline: typeof import('naive-ui')['NTimeline']
+  const NTimelineItem: typeof import('naive-ui')['NTimelineItem']
   const NTooltip: typeof import('naive-ui')['NTooltip']
   const PageFooter: typeof import('./src/components/layout/parts/PageFooter.vue')['default']
   const PageHeader: typeof import('./src/components/layout/parts/PageHeader.vue')['default']
   const PageSider: typeof import('./src/components/layout/parts/PageSider.vue')['default']
+  const PricingSettingsDrawer: typeof import('./src/components/dashboard/PricingSettingsDrawer.vue')['default']
   const ProviderFormContent: typeof import('./src/components/provider/ProviderFormContent.vue')['default']
   const ProviderGrid: typeof import('./src/components/provider/ProviderGrid.vue')['default']
   const ProviderGridCard: typeof import('./src/components/provider/ProviderGridCard.vue')['default']
+  const ProviderMigrationModal: typeof import('./src/components/provider/ProviderMigrationModal.vue')['default']
   const ProviderTable: typeof import('./src/components/provider/ProviderTable.vue')['default']
   const RankBarChart: typeof import('./src/components/dashboard/RankBarChart.vue')['default']
+  const RequestErrorGroupPanel: typeof import('./src/components/log/RequestErrorGroupPanel.vue')['default']
+  const RequestLatencyPanel: typeof import('./src/components/log/RequestLatencyPanel.vue')['default']
+  const RequestLogDetailDrawer: typeof import('./src/components/log/RequestLogDetailDrawer.vue')['default']
+  const RequestLogExportModal: typeof import('./src/components/log/RequestLogExportModal.vue')['default']
   const RouterLink: typeof import('vue-router')['RouterLink']
   const RouterView: typeof import('vue-router')['RouterView']
   const SegmentedProgress: typeof import('./src/components/common/SegmentedProgress.vue')['default']
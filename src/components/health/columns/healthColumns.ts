@@ -3,6 +3,7 @@ import { NButton, NEllipsis, NFlex, NIcon, NTag, NText, type DataTableColumns }
 import { CheckmarkCircle, CloseCircle, RefreshCircle } from '@vicons/ionicons5'
 import type {
   ApiKeyHealthItem,
+  HealthResourceRef,
   HealthIssueItem,
   ModelHealthItem,
   PlatformHealthItem,
@@ -11,14 +12,17 @@ import { HealthResourceType, HealthStatus } from '@/types/health'
 
 interface PlatformColumnHandlers {
   onEnablePlatform: (platformId: number) => void
+  onViewHistory: (target: HealthResourceRef) => void
 }
 
 interface ApiKeyColumnHandlers {
   onEnableApiKey: (keyId: number) => void
+  onViewHistory: (target: HealthResourceRef) => void
 }
 
 interface ModelColumnHandlers {
   onEnableModel: (modelId: number) => void
+  onViewHistory: (target: HealthResourceRef) => void
 }
 
 interface IssueColumnHandlers {
@@ -114,9 +118,27 @@ const renderDateTime = (dateString: string) => {
   ])
 }
 
+const renderEnableButton = (status: HealthStatus, onClick: () => void) =>
+  h(
+    NButton,
+    {
+      size: 'small',
+      onClick,
+      strong: true,
+      secondary: true,
+      type: 'primary',
+      disabled: status === HealthStatus.Available,
+    },
+    { default: () => (status === HealthStatus.Unavailable ? '启用' : '重置') },
+  )
+
+const renderHistoryButton = (onClick: () => void) =>
+  h(NButton, { size: 'small', quaternary: true, onClick }, { default: () => '历史' })
+
 export const createPlatformColumns = (
   handlers: PlatformColumnHandlers,
 ): DataTableColumns<PlatformHealthItem> => [
+  { type: 'selection' },
   {
     title: '平台',
     key: 'platform',
@@ -157,29 +179,18 @@ export const createPlatformColumns = (
   {
     title: '操作',
     key: 'actions',
-    width: 80,
+    width: 130,
     render(row) {
-      return h(
-        NButton,
-        {
-          size: 'small',
-          onClick: () => handlers.onEnablePlatform(row.platform_id),
-          strong: true,
-          secondary: true,
-          type: 'primary',
-          disabled: row.status === HealthStatus.Available,
-        },
-        {
-          default: () => {
-            switch (row.status) {
-              case HealthStatus.Unavailable:
-                return '启用'
-              default:
-                return '重置'
-            }
-          },
-        },
-      )
+      return h(NFlex, { size: 4, wrap: false }, () => [
+        renderEnableButton(row.status, () => handlers.onEnablePlatform(row.platform_id)),
+        renderHistoryButton(() =>
+          handlers.onViewHistory({
+            resource_type: HealthResourceType.Platform,
+            resource_id: row.platform_id,
+            resource_name: row.platform_name,
+          }),
+        ),
+      ])
     },
   },
 ]
@@ -187,6 +198,7 @@ export const createPlatformColumns = (
 export const createApiKeyColumns = (
   handlers: ApiKeyColumnHandlers,
 ): DataTableColumns<ApiKeyHealthItem> => [
+  { type: 'selection' },
   {
     title: '密钥',
     key: 'key_value',
@@ -227,29 +239,18 @@ export const createApiKeyColumns = (
   {
     title: '操作',
     key: 'actions',
-    width: 80,
+    width: 130,
     render(row) {
-      return h(
-        NButton,
-        {
-          size: 'small',
-          onClick: () => handlers.onEnableApiKey(row.key_id),
-          strong: true,
-          secondary: true,
-          type: 'primary',
-          disabled: row.status === HealthStatus.Available,
-        },
-        {
-          default: () => {
-            switch (row.status) {
-              case HealthStatus.Unavailable:
-                return '启用'
-              default:
-                return '重置'
-            }
-          },
-        },
-      )
+      return h(NFlex, { size: 4, wrap: false }, () => [
+        renderEnableButton(row.status, () => handlers.onEnableApiKey(row.key_id)),
+        renderHistoryButton(() =>
+          handlers.onViewHistory({
+            resource_type: HealthResourceType.APIKey,
+            resource_id: row.key_id,
+            resource_name: row.key_value,
+          }),
+        ),
+      ])
     },
   },
 ]
@@ -257,6 +258,7 @@ export const createApiKeyColumns = (
 export const createModelColumns = (
   handlers: ModelColumnHandlers,
 ): DataTableColumns<ModelHealthItem> => [
+  { type: 'selection' },
   {
     title: '模型',
     key: 'model',
@@ -303,29 +305,18 @@ export const createModelColumns = (
   {
     title: '操作',
     key: 'actions',
-    width: 80,
+    width: 130,
     render(row) {
-      return h(
-        NButton,
-        {
-          size: 'small',
-          onClick: () => handlers.onEnableModel(row.model_id),
-          strong: true,
-          secondary: true,
-          type: 'primary',
-          disabled: row.status === HealthStatus.Available,
-        },
-        {
-          default: () => {
-            switch (row.status) {
-              case HealthStatus.Unavailable:
-                return '启用'
-              default:
-                return '重置'
-            }
-          },
-        },
-      )
+      return h(NFlex, { size: 4, wrap: false }, () => [
+        renderEnableButton(row.status, () => handlers.onEnableModel(row.model_id)),
+        renderHistoryButton(() =>
+          handlers.onViewHistory({
+            resource_type: HealthResourceType.Model,
+            resource_id: row.model_id,
+            resource_name: row.model_alias || row.model_name,
+          }),
+        ),
+      ])
     },
   },
 ]
@@ -333,6 +324,7 @@ export const createModelColumns = (
 export const createIssueColumns = (
   handlers: IssueColumnHandlers,
 ): DataTableColumns<HealthIssueItem> => [
+  { type: 'selection' },
   {
     title: '类型',
     key: 'resource_type',
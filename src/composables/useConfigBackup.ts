@@ -0,0 +1,336 @@
+import { ref } from 'vue'
+import { providerApi, type ProviderApi } from '@/services/providerApi'
+import type {
+  ConfigBackupEndpoint,
+  ConfigBackupFile,
+  ConfigBackupKeyMode,
+  ConfigBackupModel,
+  ConfigImportResult,
+  ConfigResourceResult,
+  ConfigLivePlatform,
+  ConfigPlatformDiff,
+} from '@/types/configBackup'
+import { runWithConcurrency } from '@/utils/concurrency'
+import {
+  buildConfigBackup,
+  describePlatformDiff,
+  diffPlatformConfig,
+  resolveBackupPlatforms,
+} from '@/utils/configBackup'
+import { handleApiError } from '@/utils/errorHandler'
+
+// 拉取平台明细时的最大并发数
+const FETCH_CONCURRENCY = 4
+
+/**
+ * 拉取服务器上平台的完整配置（端点、密钥、模型及密钥关联）
+ * @param api 供应商 API，默认请求当前激活的服务器
+ * @param platformIds 仅拉取指定平台，未指定时拉取全部平台
+ */
+export async function fetchLiveConfig(
+  api: ProviderApi = providerApi,
+  platformIds?: number[],
+): Promise<ConfigLivePlatform[]> {
+  const allPlatforms = await api.getPlatforms(false)
+  const platforms = platformIds
+    ? allPlatforms.filter((platform) => platformIds.includes(platform.id))
+    : allPlatforms
+  const results = await runWithConcurrency(platforms, FETCH_CONCURRENCY, async (platform) => {
+    const [detail, keys, models] = await Promise.all([
+      platform.endpoints ? Promise.resolve(platform) : api.getPlatformById(platform.id),
+      api.getProviderKeys(platform.id, false),
+      api.getModelsByProvider(platform.id, false),
+    ])
+    return { platform: detail, keys, models }
+  })
+
+  return results.map((result, index) => {
+    if (result.status === 'rejected') {
+      const name = platforms[index]?.name ?? `#${index + 1}`
+      throw new Error(`读取平台「${name}」失败：${handleApiError(result.reason, '读取配置')}`)
+    }
+    return result.value
+  })
+}
+
+function maskKeyValue(value = ''): string {
+  if (value.length <= 8) return '***'
+  return `${value.substring(0, 4)}...${value.substring(value.length - 4)}`
+}
+
+function getEndpointLabel(endpoint: ConfigBackupEndpoint): string {
+  return [endpoint.endpoint_type, endpoint.endpoint_variant].filter(Boolean).join(' / ')
+}
+
+async function runModelBatchTask(api: ProviderApi, taskId: number, operation: string) {
+  const task = await api.pollModelBatchTask(taskId)
+  if (task.status === 'failed') {
+    throw new Error(task.error_message || `${operation}失败`)
+  }
+}
+
+/**
+ * 执行写入并为每项资源记录结果；批量接口是原子操作，同一批资源共享结果
+ */
+async function recordResults(
+  results: ConfigResourceResult[],
+  items: Array<Omit<ConfigResourceResult, 'status' | 'error'>>,
+  task: () => Promise<unknown>,
+): Promise<boolean> {
+  if (items.length === 0) return true
+  try {
+    await task()
+    results.push(...items.map((item) => ({ ...item, status: 'success' as const })))
+    return true
+  } catch (error) {
+    const message = handleApiError(error, '写入配置')
+    results.push(...items.map((item) => ({ ...item, status: 'failed' as const, error: message })))
+    return false
+  }
+}
+
+/**
+ * 按变更计划写入单个平台，端点与模型使用批量接口；平台创建失败时不再写入其余资源
+ * @param diff 平台变更计划
+ * @param api 供应商 API，默认写入当前激活的服务器
+ * @returns 每项资源的写入结果
+ */
+export async function applyPlatformDiff(
+  diff: ConfigPlatformDiff,
+  api: ProviderApi = providerApi,
+): Promise<ConfigResourceResult[]> {
+  const { platform } = diff
+  const results: ConfigResourceResult[] = []
+  const endpointItems = (endpoints: ConfigBackupEndpoint[], action: 'create' | 'update') =>
+    endpoints.map((endpoint) => ({
+      resource: 'endpoint' as const,
+      action,
+      name: getEndpointLabel(endpoint),
+    }))
+
+  let platformId: number
+  if (diff.existingId === null) {
+    // 新建平台时端点随平台一起创建
+    try {
+      const created = await api.createPlatform({
+        name: platform.name,
+        base_url: platform.base_url,
+        rate_limit: platform.rate_limit,
+        endpoints: diff.endpointsToCreate,
+      })
+      platformId = created.id
+    } catch (error) {
+      results.push({
+        resource: 'platform',
+        action: 'create',
+        name: platform.name,
+        status: 'failed',
+        error: handleApiError(error, '创建平台'),
+      })
+      return results
+    }
+    results.push({ resource: 'platform', action: 'create', name: platform.name, status: 'success' })
+    results.push(
+      ...endpointItems(diff.endpointsToCreate, 'create').map((item) => ({
+        ...item,
+        status: 'success' as const,
+      })),
+    )
+  } else {
+    platformId = diff.existingId
+    if (diff.platformChanges.length > 0) {
+      await recordResults(
+        results,
+        [{ resource: 'platform', action: 'update', name: platform.name }],
+        () =>
+          api.updatePlatform(platformId, {
+            base_url: platform.base_url,
+            rate_limit: platform.rate_limit,
+          }),
+      )
+    }
+    await recordResults(results, endpointItems(diff.endpointsToCreate, 'create'), () =>
+      api.addEndpointsBatch(platformId, diff.endpointsToCreate),
+    )
+    await recordResults(results, endpointItems(diff.endpointsToUpdate, 'update'), () =>
+      api.updateEndpointsBatch(platformId, diff.endpointsToUpdate),
+    )
+  }
+
+  // 后端没有批量创建密钥的接口，逐个创建并记录 ref 对应的新 ID
+  const keyIds: Record<string, number> = { ...diff.existingKeyIds }
+  for (const key of diff.keysToCreate) {
+    await recordResults(
+      results,
+      [{ resource: 'api_key', action: 'create', name: maskKeyValue(key.value) }],
+      async () => {
+        const created = await api.createProviderKey(platformId, { value: key.value })
+        keyIds[key.ref] = created.id
+      },
+    )
+  }
+
+  const resolveKeys = (model: ConfigBackupModel) =>
+    model.api_keys
+      .map((ref) => keyIds[ref])
+      .filter((id): id is number => id !== undefined)
+      .map((id) => ({ id }))
+
+  // 关联密钥全部创建失败的模型无法创建
+  const modelsToCreate = diff.modelsToCreate.filter((model) => resolveKeys(model).length > 0)
+  for (const model of diff.modelsToCreate) {
+    if (modelsToCreate.includes(model)) continue
+    results.push({
+      resource: 'model',
+      action: 'create',
+      name: model.name,
+      status: 'failed',
+      error: '关联的密钥均未创建成功',
+    })
+  }
+
+  await recordResults(
+    results,
+    modelsToCreate.map((model) => ({
+      resource: 'model' as const,
+      action: 'create' as const,
+      name: model.name,
+    })),
+    async () => {
+      const accepted = await api.createModelsBatch(
+        platformId,
+        modelsToCreate.map((model) => ({
+          name: model.name,
+          alias: model.alias,
+          api_keys: resolveKeys(model),
+        })),
+      )
+      await runModelBatchTask(api, accepted.task_id, '批量创建模型')
+    },
+  )
+
+  await recordResults(
+    results,
+    diff.modelsToUpdate.map((model) => ({
+      resource: 'model' as const,
+      action: 'update' as const,
+      name: model.name,
+    })),
+    async () => {
+      const accepted = await api.updateModelsBatch(
+        platformId,
+        diff.modelsToUpdate.map((model) => {
+          // 合并服务器上已有的关联，导入不解除任何密钥关联
+          const keyIds = new Set([...model.liveKeyIds, ...resolveKeys(model).map((key) => key.id)])
+          const apiKeys = [...keyIds].map((id) => ({ id }))
+          return {
+            id: model.id,
+            alias: model.alias,
+            api_keys: apiKeys.length > 0 ? apiKeys : undefined,
+          }
+        }),
+      )
+      await runModelBatchTask(api, accepted.task_id, '批量更新模型')
+    },
+  )
+
+  return results
+}
+
+/**
+ * 网关配置备份与恢复
+ * 导出服务器上全部平台配置为版本化 JSON，导入时与服务器比对后按平台写入
+ */
+export function useConfigBackup() {
+  const exporting = ref(false)
+  const planning = ref(false)
+  const applying = ref(false)
+  const progress = ref({ done: 0, total: 0 })
+
+  /**
+   * 生成当前服务器的配置备份
+   * @param keyMode 密钥导出方式
+   * @param passphrase 加密口令
+   */
+  const exportBackup = async (
+    keyMode: ConfigBackupKeyMode,
+    passphrase = '',
+  ): Promise<ConfigBackupFile> => {
+    exporting.value = true
+    try {
+      return await buildConfigBackup(await fetchLiveConfig(), keyMode, passphrase)
+    } finally {
+      exporting.value = false
+    }
+  }
+
+  /**
+   * 比对备份与服务器现有配置，生成导入计划
+   * @param file 备份文件
+   * @param passphrase 解密口令（仅加密备份需要）
+   */
+  const buildImportPlan = async (
+    file: ConfigBackupFile,
+    passphrase = '',
+  ): Promise<ConfigPlatformDiff[]> => {
+    planning.value = true
+    try {
+      const [platforms, live] = await Promise.all([
+        resolveBackupPlatforms(file, passphrase),
+        fetchLiveConfig(),
+      ])
+      const plan: ConfigPlatformDiff[] = []
+      for (const platform of platforms) {
+        const existing = live.find((item) => item.platform.name === platform.name) ?? null
+        plan.push(await diffPlatformConfig(platform, existing))
+      }
+      return plan
+    } finally {
+      planning.value = false
+    }
+  }
+
+  /**
+   * 按导入计划逐个平台写入，单个平台失败不影响其他平台
+   * @param plan 导入计划
+   */
+  const applyImportPlan = async (plan: ConfigPlatformDiff[]): Promise<ConfigImportResult[]> => {
+    applying.value = true
+    progress.value = { done: 0, total: plan.length }
+    const results: ConfigImportResult[] = []
+    try {
+      for (const diff of plan) {
+        if (diff.action === 'unchanged') {
+          results.push({ name: diff.name, status: 'unchanged', summary: '无变化' })
+        } else {
+          const resourceResults = await applyPlatformDiff(diff)
+          const failed = resourceResults.filter((result) => result.status === 'failed')
+          const parts = describePlatformDiff(diff)
+          results.push({
+            name: diff.name,
+            status: failed.length > 0 ? 'failed' : 'success',
+            summary: (diff.action === 'create' ? ['新建平台', ...parts] : parts).join('，'),
+            error:
+              failed.length > 0
+                ? `${failed.length} 项失败：${failed[0]?.name}（${failed[0]?.error}）`
+                : undefined,
+          })
+        }
+        progress.value.done++
+      }
+      return results
+    } finally {
+      applying.value = false
+    }
+  }
+
+  return {
+    exporting,
+    planning,
+    applying,
+    progress,
+    exportBackup,
+    buildImportPlan,
+    applyImportPlan,
+  }
+}
@@ -1,16 +1,101 @@
 import { onMounted } from 'vue'
-import { handleApiError } from '@/utils/errorHandler'
+import { handleApiError, isRequestCanceled } from '@/utils/errorHandler'
 import { healthApi } from '@/services/healthApi'
+import { http } from '@/services/http'
+import { providerApi } from '@/services/providerApi'
 import { useApiServerCheck } from '@/composables/useApiServerCheck'
-import { useHealthState } from '@/composables/useHealthState'
+import {
+  useHealthState,
+  type HealthListKey,
+  type HealthPaginationState,
+} from '@/composables/useHealthState'
+import { useApiServerStore } from '@/stores/apiServerStore'
+import { recordHealthSnapshots } from '@/services/healthHistoryDb'
 import { useMessage } from 'naive-ui'
-import type { HealthIssueItem } from '@/types/health'
+import {
+  HealthResourceType,
+  type HealthBulkAction,
+  type ApiKeyHealthItem,
+  type HealthIssueItem,
+  type HealthListFilterParams,
+  type HealthResourceRef,
+  type HealthSnapshotInput,
+  type HealthStatus,
+  type ModelHealthItem,
+  type PlatformHealthItem,
+} from '@/types/health'
+import { runWithConcurrency } from '@/utils/concurrency'
+import {
+  applyHealthListFilters,
+  hasHealthListFilters,
+  isHealthListResultFiltered,
+  toHealthListParams,
+  type HealthListFilterState,
+  type HealthListItemAccessor,
+  type HealthListItemLike,
+} from '@/utils/healthListQuery'
+import { toApiKeySnapshot, toModelSnapshot, toPlatformSnapshot } from '@/utils/healthHistory'
 
 let actionsInstance: ReturnType<typeof createHealthActions> | null = null
 
+// 批量启用 / 禁用时的最大并发请求数
+const BULK_CONCURRENCY = 5
+
+// 本地筛选时逐页拉取全部数据的每页条数与最大页数
+const FALLBACK_PAGE_SIZE = 100
+const FALLBACK_MAX_PAGES = 50
+
+type HealthListPageParams = HealthListFilterParams & {
+  page: number
+  page_size: number
+  platform_id?: number
+}
+
+interface HealthListPage<T> {
+  items: T[]
+  total: number
+}
+
+// silent 为 true 时不显示加载状态（自动刷新时使用）
+// auto 为 true 时表示由定时器触发，后端不支持筛选时跳过本地筛选所需的全量拉取
+interface FetchOptions {
+  silent?: boolean
+  auto?: boolean
+}
+
+type HealthRequestKey = HealthListKey | 'summary' | 'issues'
+
+interface FilteredListOptions<T extends HealthListItemLike> {
+  listKey: HealthListKey
+  filters: HealthListFilterState
+  pagination: HealthPaginationState
+  accessor: HealthListItemAccessor<T>
+  fetchPage: (params: HealthListPageParams) => Promise<HealthListPage<T>>
+  // 获取平台下的资源 ID，用于本地按平台筛选
+  getPlatformItemIds?: (platformId: number) => Promise<number[]>
+  // 是否由自动刷新触发
+  auto?: boolean
+}
+
+const platformAccessor: HealthListItemAccessor<PlatformHealthItem> = {
+  getId: (item) => item.platform_id,
+  getSearchTexts: (item) => [item.platform_name],
+}
+
+const apiKeyAccessor: HealthListItemAccessor<ApiKeyHealthItem> = {
+  getId: (item) => item.key_id,
+  getSearchTexts: (item) => [item.key_value],
+}
+
+const modelAccessor: HealthListItemAccessor<ModelHealthItem> = {
+  getId: (item) => item.model_id,
+  getSearchTexts: (item) => [item.model_name, item.model_alias],
+}
+
 function createHealthActions() {
   const message = useMessage()
   const { checkApiServer } = useApiServerCheck()
+  const apiServerStore = useApiServerStore()
 
   const {
     healthData,
@@ -24,78 +109,297 @@ function createHealthActions() {
     modelHealthList,
     modelListLoading,
     modelPagination,
+    platformFilters,
+    apiKeyFilters,
+    modelFilters,
+    clientFilteredLists,
     issuesList,
     issuesLoading,
+    statusChangedIds,
+    newIssueKeys,
+    bulkOperation,
+    autoRefreshError,
   } = useHealthState()
 
-  const fetchHealthData = async () => {
+  // 已确认支持 / 不支持筛选参数的列表，按服务器区分，避免每次都重新探测
+  const supportedFilterLists = new Set<string>()
+  const unsupportedFilterLists = new Set<string>()
+
+  // 上次拉取到的资源状态与问题，用于标记两次拉取之间的变化；切换服务器后重新记录
+  let trackedServerId: string | null = null
+  const lastKnownStatus: Record<HealthListKey, Map<number, HealthStatus>> = {
+    platform: new Map(),
+    apiKey: new Map(),
+    model: new Map(),
+  }
+  let lastIssueKeys: Set<string> | null = null
+
+  // 各类请求最近一次的取消控制器，重复发起时取消仍未完成的旧请求，避免旧结果覆盖新结果
+  const requestControllers: Partial<Record<HealthRequestKey, AbortController>> = {}
+
+  const beginRequest = (key: HealthRequestKey) => {
+    requestControllers[key]?.abort()
+    const controller = new AbortController()
+    requestControllers[key] = controller
+    return controller
+  }
+
+  // 请求结束时仅最近一次请求负责收尾（如重置加载状态）
+  const finishRequest = (key: HealthRequestKey, controller: AbortController) => {
+    if (requestControllers[key] !== controller) return false
+    delete requestControllers[key]
+    return true
+  }
+
+  const isStaleRequest = (key: HealthRequestKey, controller: AbortController) =>
+    requestControllers[key] !== controller
+
+  const resetTrackingIfServerChanged = () => {
+    if (trackedServerId === apiServerStore.activeServerId) return
+    trackedServerId = apiServerStore.activeServerId
+    Object.values(lastKnownStatus).forEach((known) => known.clear())
+    lastIssueKeys = null
+  }
+
+  const trackStatusChanges = <T extends HealthListItemLike>(
+    listKey: HealthListKey,
+    items: T[],
+    getId: (item: T) => number,
+  ) => {
+    resetTrackingIfServerChanged()
+    const known = lastKnownStatus[listKey]
+    const changed = new Set<number>()
+    for (const item of items) {
+      const id = getId(item)
+      const previous = known.get(id)
+      if (previous !== undefined && previous !== item.status) changed.add(id)
+      known.set(id, item.status)
+    }
+    statusChangedIds[listKey] = changed
+  }
+
+  const trackNewIssues = (items: HealthIssueItem[]) => {
+    resetTrackingIfServerChanged()
+    const keys = new Set(items.map((item) => `${item.resource_type}-${item.resource_id}`))
+    const previous = lastIssueKeys
+    newIssueKeys.value = previous
+      ? new Set([...keys].filter((key) => !previous.has(key)))
+      : new Set()
+    lastIssueKeys = keys
+  }
+
+  // 本轮刷新中是否有请求失败
+  let refreshFailed = false
+
+  // 静默刷新失败时不弹出提示，改为记录到 autoRefreshError 持续显示，避免定时刷新反复弹窗
+  const reportFetchError = (error: unknown, operation: string, silent: boolean) => {
+    const errorMessage = handleApiError(error, operation)
+    refreshFailed = true
+    if (!silent) {
+      message.error(errorMessage)
+      return
+    }
+    autoRefreshError.value = errorMessage
+  }
+
+  // 记录健康历史快照，失败不影响列表展示
+  const recordSnapshots = (snapshots: HealthSnapshotInput[]) => {
+    const serverId = apiServerStore.activeServerId
+    if (!serverId) return
+    recordHealthSnapshots(serverId, snapshots).catch((error) => {
+      console.error('记录健康历史失败：', error)
+    })
+  }
+
+  const fetchHealthData = async ({ silent = false }: FetchOptions = {}) => {
+    const controller = beginRequest('summary')
     try {
-      loading.value = true
-      healthData.value = await healthApi.getHealthSummary()
+      if (!silent) loading.value = true
+      const summary = await healthApi.getHealthSummary(http, { signal: controller.signal })
+      if (isStaleRequest('summary', controller)) return
+      healthData.value = summary
     } catch (error) {
-      message.error(handleApiError(error, '获取健康状态数据'))
+      if (isRequestCanceled(error)) return
+      reportFetchError(error, '获取健康状态数据', silent)
     } finally {
-      loading.value = false
+      if (finishRequest('summary', controller)) loading.value = false
+    }
+  }
+
+  // 逐页拉取全部数据（不带筛选参数）
+  const fetchAllPages = async <T>(
+    fetchPage: (params: HealthListPageParams) => Promise<HealthListPage<T>>,
+  ): Promise<{ items: T[]; total: number }> => {
+    const items: T[] = []
+    let total = 0
+    for (let page = 1; page <= FALLBACK_MAX_PAGES; page++) {
+      const response = await fetchPage({ page, page_size: FALLBACK_PAGE_SIZE })
+      total = response.total
+      items.push(...response.items)
+      if (response.items.length === 0 || items.length >= response.total) break
     }
+    return { items, total }
   }
 
-  const fetchPlatformHealthList = async () => {
+  /**
+   * 按筛选条件获取当前页数据
+   * 后端忽略筛选参数时拉取全部数据，在本地筛选、排序并分页
+   * 自动刷新时需要本地筛选则返回 null，保留当前列表，避免每次定时刷新都拉取全部数据
+   */
+  const fetchFilteredPage = async <T extends HealthListItemLike>(
+    options: FilteredListOptions<T>,
+  ): Promise<HealthListPage<T> | null> => {
+    const { listKey, filters, pagination, accessor, fetchPage, auto } = options
+    const params: HealthListPageParams = {
+      page: pagination.page,
+      page_size: pagination.pageSize,
+      ...toHealthListParams(filters),
+    }
+
+    if (!hasHealthListFilters(filters)) {
+      clientFilteredLists[listKey] = null
+      return fetchPage(params)
+    }
+
+    const platformItemIds =
+      filters.platformId !== null && options.getPlatformItemIds
+        ? new Set(await options.getPlatformItemIds(filters.platformId))
+        : null
+
+    const supportKey = `${apiServerStore.activeServerId}:${listKey}`
+    if (!unsupportedFilterLists.has(supportKey)) {
+      const response = await fetchPage(params)
+      if (!isHealthListResultFiltered(response.items, filters, accessor, platformItemIds)) {
+        unsupportedFilterLists.add(supportKey)
+      } else {
+        // 当前页恰好满足筛选条件时，total 可能仍是未筛选的总数；
+        // 首页已包含全部结果，或 total 小于未筛选总数时才确认后端已筛选，否则本次按本地筛选处理
+        const complete = pagination.page === 1 && response.total <= response.items.length
+        if (
+          complete ||
+          supportedFilterLists.has(supportKey) ||
+          response.total < (await fetchPage({ page: 1, page_size: 1 })).total
+        ) {
+          if (!complete) supportedFilterLists.add(supportKey)
+          clientFilteredLists[listKey] = null
+          return response
+        }
+      }
+    }
+
+    if (auto) return null
+
+    const { items: allItems, total } = await fetchAllPages(fetchPage)
+    clientFilteredLists[listKey] = {
+      fetched: allItems.length,
+      total,
+      truncated: allItems.length < total,
+    }
+    const filtered = applyHealthListFilters(allItems, filters, accessor, platformItemIds)
+    const start = (pagination.page - 1) * pagination.pageSize
+    return {
+      items: filtered.slice(start, start + pagination.pageSize),
+      total: filtered.length,
+    }
+  }
+
+  const fetchPlatformHealthList = async ({ silent = false, auto = false }: FetchOptions = {}) => {
+    const controller = beginRequest('platform')
     try {
-      platformListLoading.value = true
-      const response = await healthApi.getPlatformHealthList({
-        page: platformPagination.page,
-        page_size: platformPagination.pageSize,
+      if (!silent) platformListLoading.value = true
+      const response = await fetchFilteredPage({
+        listKey: 'platform',
+        filters: platformFilters,
+        pagination: platformPagination,
+        accessor: platformAccessor,
+        fetchPage: (params) =>
+          healthApi.getPlatformHealthList(params, { signal: controller.signal }),
+        auto,
       })
+      if (isStaleRequest('platform', controller) || !response) return
+      trackStatusChanges('platform', response.items, platformAccessor.getId)
       platformHealthList.value = response.items
       platformPagination.itemCount = response.total
+      recordSnapshots(response.items.map(toPlatformSnapshot))
     } catch (error) {
-      message.error(handleApiError(error, '获取平台健康状态列表'))
+      if (isRequestCanceled(error)) return
+      reportFetchError(error, '获取平台健康状态列表', silent)
     } finally {
-      platformListLoading.value = false
+      if (finishRequest('platform', controller)) platformListLoading.value = false
     }
   }
 
-  const fetchApiKeyHealthList = async () => {
+  const fetchApiKeyHealthList = async ({ silent = false, auto = false }: FetchOptions = {}) => {
+    const controller = beginRequest('apiKey')
     try {
-      apiKeyListLoading.value = true
-      const response = await healthApi.getApiKeyHealthList({
-        page: apiKeyPagination.page,
-        page_size: apiKeyPagination.pageSize,
+      if (!silent) apiKeyListLoading.value = true
+      const response = await fetchFilteredPage({
+        listKey: 'apiKey',
+        filters: apiKeyFilters,
+        pagination: apiKeyPagination,
+        accessor: apiKeyAccessor,
+        fetchPage: (params) => healthApi.getApiKeyHealthList(params, { signal: controller.signal }),
+        getPlatformItemIds: async (platformId) =>
+          (await providerApi.getProviderKeys(platformId, false, { signal: controller.signal })).map(
+            (key) => key.id,
+          ),
+        auto,
       })
+      if (isStaleRequest('apiKey', controller) || !response) return
+      trackStatusChanges('apiKey', response.items, apiKeyAccessor.getId)
       apiKeyHealthList.value = response.items
       apiKeyPagination.itemCount = response.total
+      recordSnapshots(response.items.map(toApiKeySnapshot))
     } catch (error) {
-      message.error(handleApiError(error, '获取密钥健康状态列表'))
+      if (isRequestCanceled(error)) return
+      reportFetchError(error, '获取密钥健康状态列表', silent)
     } finally {
-      apiKeyListLoading.value = false
+      if (finishRequest('apiKey', controller)) apiKeyListLoading.value = false
     }
   }
 
-  const fetchModelHealthList = async () => {
+  const fetchModelHealthList = async ({ silent = false, auto = false }: FetchOptions = {}) => {
+    const controller = beginRequest('model')
     try {
-      modelListLoading.value = true
-      const response = await healthApi.getModelHealthList({
-        page: modelPagination.page,
-        page_size: modelPagination.pageSize,
+      if (!silent) modelListLoading.value = true
+      const response = await fetchFilteredPage({
+        listKey: 'model',
+        filters: modelFilters,
+        pagination: modelPagination,
+        accessor: modelAccessor,
+        fetchPage: (params) => healthApi.getModelHealthList(params, { signal: controller.signal }),
+        getPlatformItemIds: async (platformId) =>
+          (
+            await providerApi.getModelsByProvider(platformId, false, { signal: controller.signal })
+          ).map((model) => model.id),
+        auto,
       })
+      if (isStaleRequest('model', controller) || !response) return
+      trackStatusChanges('model', response.items, modelAccessor.getId)
       modelHealthList.value = response.items
       modelPagination.itemCount = response.total
+      recordSnapshots(response.items.map(toModelSnapshot))
     } catch (error) {
-      message.error(handleApiError(error, '获取模型健康状态列表'))
+      if (isRequestCanceled(error)) return
+      reportFetchError(error, '获取模型健康状态列表', silent)
     } finally {
-      modelListLoading.value = false
+      if (finishRequest('model', controller)) modelListLoading.value = false
     }
   }
 
-  const fetchHealthIssues = async () => {
+  const fetchHealthIssues = async ({ silent = false }: FetchOptions = {}) => {
+    const controller = beginRequest('issues')
     try {
-      issuesLoading.value = true
-      const response = await healthApi.getHealthIssues()
+      if (!silent) issuesLoading.value = true
+      const response = await healthApi.getHealthIssues({ signal: controller.signal })
+      if (isStaleRequest('issues', controller)) return
+      trackNewIssues(response.items)
       issuesList.value = response.items
     } catch (error) {
-      message.error(handleApiError(error, '获取活跃问题列表'))
+      if (isRequestCanceled(error)) return
+      reportFetchError(error, '获取活跃问题列表', silent)
     } finally {
-      issuesLoading.value = false
+      if (finishRequest('issues', controller)) issuesLoading.value = false
     }
   }
 
@@ -146,6 +450,72 @@ function createHealthActions() {
     }
   }
 
+  const updateResourceHealth = (target: HealthResourceRef, enabled: boolean): Promise<void> => {
+    switch (target.resource_type) {
+      case HealthResourceType.Platform:
+        return enabled
+          ? healthApi.enablePlatform(target.resource_id)
+          : healthApi.disablePlatform(target.resource_id)
+      case HealthResourceType.APIKey:
+        return enabled
+          ? healthApi.enableKey(target.resource_id)
+          : healthApi.disableKey(target.resource_id)
+      case HealthResourceType.Model:
+        return enabled
+          ? healthApi.enableModel(target.resource_id)
+          : healthApi.disableModel(target.resource_id)
+    }
+  }
+
+  /**
+   * 批量启用 / 禁用资源，限制并发并记录每一项的结果
+   * @param targets 目标资源
+   * @param action 操作类型
+   */
+  const handleBulkAction = async (targets: HealthResourceRef[], action: HealthBulkAction) => {
+    if (targets.length === 0 || bulkOperation.running) return
+
+    const actionLabel = action === 'enable' ? '启用' : '禁用'
+    Object.assign(bulkOperation, {
+      visible: true,
+      running: true,
+      action,
+      total: targets.length,
+      completed: 0,
+      results: targets.map((target) => ({ target, status: 'pending' as const })),
+    })
+
+    await runWithConcurrency(bulkOperation.results, BULK_CONCURRENCY, async (result) => {
+      try {
+        await updateResourceHealth(result.target, action === 'enable')
+        result.status = 'success'
+      } catch (error) {
+        result.status = 'error'
+        result.error = handleApiError(error, actionLabel)
+      } finally {
+        bulkOperation.completed++
+      }
+    })
+
+    bulkOperation.running = false
+
+    const failCount = bulkOperation.results.filter((result) => result.status === 'error').length
+    const successCount = targets.length - failCount
+    if (failCount === 0) {
+      message.success(`批量${actionLabel}完成：${successCount} 项成功`)
+    } else {
+      message.warning(`批量${actionLabel}完成：${successCount} 项成功，${failCount} 项失败`)
+    }
+
+    // 刷新受影响的列表
+    const affectedTypes = new Set(targets.map((target) => target.resource_type))
+    fetchHealthData()
+    fetchHealthIssues()
+    if (affectedTypes.has(HealthResourceType.Platform)) fetchPlatformHealthList()
+    if (affectedTypes.has(HealthResourceType.APIKey)) fetchApiKeyHealthList()
+    if (affectedTypes.has(HealthResourceType.Model)) fetchModelHealthList()
+  }
+
   const handlePlatformPageChange = (page: number) => {
     platformPagination.page = page
     fetchPlatformHealthList()
@@ -179,6 +549,42 @@ function createHealthActions() {
     fetchModelHealthList()
   }
 
+  // 筛选条件变化后回到第一页
+  const handlePlatformFilterChange = (filters: HealthListFilterState) => {
+    Object.assign(platformFilters, filters)
+    platformPagination.page = 1
+    fetchPlatformHealthList()
+  }
+
+  const handleApiKeyFilterChange = (filters: HealthListFilterState) => {
+    Object.assign(apiKeyFilters, filters)
+    apiKeyPagination.page = 1
+    fetchApiKeyHealthList()
+  }
+
+  const handleModelFilterChange = (filters: HealthListFilterState) => {
+    Object.assign(modelFilters, filters)
+    modelPagination.page = 1
+    fetchModelHealthList()
+  }
+
+  /**
+   * 刷新摘要、问题列表与当前标签页的列表，保留分页与筛选条件
+   * 自动刷新时静默执行，失败记录到 autoRefreshError；手动刷新时显示加载状态并弹出错误提示
+   * @param tabName 当前标签页
+   * @param auto 是否由自动刷新触发
+   */
+  const refreshHealthPage = async (tabName: string, auto = false) => {
+    const options: FetchOptions = { silent: auto, auto }
+    const tasks = [fetchHealthData(options), fetchHealthIssues(options)]
+    if (tabName === 'platform') tasks.push(fetchPlatformHealthList(options))
+    if (tabName === 'apikey') tasks.push(fetchApiKeyHealthList(options))
+    if (tabName === 'model') tasks.push(fetchModelHealthList(options))
+    refreshFailed = false
+    await Promise.all(tasks)
+    if (!refreshFailed) autoRefreshError.value = null
+  }
+
   const handleTabChange = (tabName: string) => {
     if (tabName === 'platform' && platformHealthList.value.length === 0) {
       fetchPlatformHealthList()
@@ -210,13 +616,18 @@ function createHealthActions() {
     handleEnablePlatform,
     handleEnableApiKey,
     handleEnableModel,
+    handleBulkAction,
     handlePlatformPageChange,
     handlePlatformPageSizeChange,
     handleApiKeyPageChange,
     handleApiKeyPageSizeChange,
     handlePageChange,
     handlePageSizeChange,
+    handlePlatformFilterChange,
+    handleApiKeyFilterChange,
+    handleModelFilterChange,
     handleTabChange,
+    refreshHealthPage,
   }
 }
 
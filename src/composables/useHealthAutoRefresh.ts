@@ -0,0 +1,99 @@
+import { computed, onBeforeUnmount, onMounted, ref, watch } from 'vue'
+import { useDocumentVisibility } from '@vueuse/core'
+
+const STORAGE_KEY = 'pinai-health-auto-refresh'
+// 默认不自动刷新，由用户按需开启
+const DEFAULT_INTERVAL_SECONDS = 0
+
+export const HEALTH_REFRESH_INTERVAL_OPTIONS = [
+  { label: '不自动刷新', value: 0 },
+  { label: '每 15 秒', value: 15 },
+  { label: '每 30 秒', value: 30 },
+  { label: '每 1 分钟', value: 60 },
+  { label: '每 2 分钟', value: 120 },
+  { label: '每 5 分钟', value: 300 },
+]
+
+const loadIntervalSeconds = (): number => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored === null) return DEFAULT_INTERVAL_SECONDS
+    const value = Number(stored)
+    return HEALTH_REFRESH_INTERVAL_OPTIONS.some((option) => option.value === value)
+      ? value
+      : DEFAULT_INTERVAL_SECONDS
+  } catch (error) {
+    console.error('从 localStorage 加载健康页刷新间隔失败：', error)
+    return DEFAULT_INTERVAL_SECONDS
+  }
+}
+
+/**
+ * 健康页面自动刷新
+ * 按所选间隔倒计时刷新；页面不可见时暂停倒计时，重新可见后继续
+ * @param refresh 刷新函数，auto 为 true 表示由定时器触发，否则为用户手动刷新
+ */
+export function useHealthAutoRefresh(refresh: (auto: boolean) => Promise<void>) {
+  const intervalSeconds = ref(loadIntervalSeconds())
+  const countdown = ref(intervalSeconds.value)
+  const refreshing = ref(false)
+  const lastRefreshedAt = ref<Date | null>(null)
+
+  const visibility = useDocumentVisibility()
+  const paused = computed(() => visibility.value === 'hidden')
+
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  const runRefresh = async (auto: boolean) => {
+    if (refreshing.value) return
+    refreshing.value = true
+    try {
+      await refresh(auto)
+      lastRefreshedAt.value = new Date()
+    } finally {
+      refreshing.value = false
+      countdown.value = intervalSeconds.value
+    }
+  }
+
+  // 手动刷新
+  const refreshNow = () => runRefresh(false)
+
+  const tick = () => {
+    if (intervalSeconds.value <= 0 || paused.value || refreshing.value) return
+    if (countdown.value <= 1) {
+      runRefresh(true)
+      return
+    }
+    countdown.value -= 1
+  }
+
+  watch(intervalSeconds, (value) => {
+    countdown.value = value
+    try {
+      localStorage.setItem(STORAGE_KEY, String(value))
+    } catch (error) {
+      console.error('保存健康页刷新间隔到 localStorage 失败：', error)
+    }
+  })
+
+  onMounted(() => {
+    timer = setInterval(tick, 1000)
+  })
+
+  onBeforeUnmount(() => {
+    if (timer) {
+      clearInterval(timer)
+      timer = null
+    }
+  })
+
+  return {
+    intervalSeconds,
+    countdown,
+    refreshing,
+    paused,
+    lastRefreshedAt,
+    refreshNow,
+  }
+}
@@ -1,11 +1,17 @@
 import { computed, reactive, ref } from 'vue'
 import type {
   ApiKeyHealthItem,
+  HealthBulkOperationState,
   HealthIssueItem,
   HealthSummary,
   ModelHealthItem,
   PlatformHealthItem,
 } from '@/types/health'
+import {
+  createHealthListFilterState,
+  type HealthClientFilterState,
+  type HealthListFilterState,
+} from '@/utils/healthListQuery'
 
 export interface HealthSegment {
   key: string
@@ -22,6 +28,8 @@ export interface HealthPaginationState {
   pageSizes: number[]
 }
 
+export type HealthListKey = 'platform' | 'apiKey' | 'model'
+
 const HEALTH_COLORS = {
   available: '#18a058',
   warning: '#f0a020',
@@ -65,9 +73,42 @@ function createHealthState() {
     pageSizes: [10, 20, 50, 100],
   })
 
+  // 各列表的筛选与排序条件
+  const platformFilters = reactive<HealthListFilterState>(createHealthListFilterState())
+  const apiKeyFilters = reactive<HealthListFilterState>(createHealthListFilterState())
+  const modelFilters = reactive<HealthListFilterState>(createHealthListFilterState())
+
+  // 后端忽略筛选参数、当前在本地筛选的列表及其拉取情况
+  const clientFilteredLists = reactive<Record<HealthListKey, HealthClientFilterState | null>>({
+    platform: null,
+    apiKey: null,
+    model: null,
+  })
+
   const issuesList = ref<HealthIssueItem[]>([])
   const issuesLoading = ref(false)
 
+  // 与上次拉取相比状态发生变化的资源 ID，以及新出现的问题
+  const statusChangedIds = reactive<Record<HealthListKey, Set<number>>>({
+    platform: new Set(),
+    apiKey: new Set(),
+    model: new Set(),
+  })
+  const newIssueKeys = ref<Set<string>>(new Set())
+
+  // 最近一次自动刷新的失败信息，刷新成功后清除
+  const autoRefreshError = ref<string | null>(null)
+
+  // 批量启用 / 禁用的进度与结果
+  const bulkOperation = reactive<HealthBulkOperationState>({
+    visible: false,
+    running: false,
+    action: 'enable',
+    total: 0,
+    completed: 0,
+    results: [],
+  })
+
   const platformSegments = computed<HealthSegment[]>(() => {
     if (!healthData.value) return []
     const data = healthData.value.platform
@@ -128,8 +169,16 @@ function createHealthState() {
     modelHealthList,
     modelListLoading,
     modelPagination,
+    platformFilters,
+    apiKeyFilters,
+    modelFilters,
+    clientFilteredLists,
+    autoRefreshError,
     issuesList,
     issuesLoading,
+    statusChangedIds,
+    newIssueKeys,
+    bulkOperation,
     HEALTH_COLORS,
     platformSegments,
     apiKeySegments,
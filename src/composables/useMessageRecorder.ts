@@ -0,0 +1,39 @@
+import { useRoute } from 'vue-router'
+import { useMessage, type MessageApi } from 'naive-ui'
+import { useNotificationStore } from '@/stores/notificationStore'
+import type { NotificationLevel } from '@/types/notification'
+
+// 需要记录到通知中心的消息级别
+const RECORDED_LEVELS = ['success', 'warning', 'error'] as const satisfies NotificationLevel[]
+
+// 已接管的 MessageApi，避免重复包装
+const patchedApis = new WeakSet<MessageApi>()
+
+/**
+ * 将 useMessage() 的成功 / 警告 / 错误消息同步记录到通知中心
+ * 所有组件共享同一个 MessageProvider 注入的 MessageApi，因此只需在布局中调用一次
+ */
+export function useMessageRecorder() {
+  const message = useMessage()
+  const route = useRoute()
+  const notificationStore = useNotificationStore()
+
+  if (patchedApis.has(message)) return
+  patchedApis.add(message)
+
+  for (const level of RECORDED_LEVELS) {
+    const original = message[level]
+    message[level] = (content, options) => {
+      // 渲染函数形式的消息无法序列化，不做记录
+      if (typeof content === 'string' && content.trim()) {
+        notificationStore.addNotification({
+          level,
+          title: content,
+          source: (route.meta.title as string | undefined) || route.path,
+          route: route.fullPath,
+        })
+      }
+      return original(content, options)
+    }
+  }
+}
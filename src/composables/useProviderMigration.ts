@@ -0,0 +1,157 @@
+import { ref } from 'vue'
+import { fetchLiveConfig, applyPlatformDiff } from '@/composables/useConfigBackup'
+import { http } from '@/services/http'
+import { createProviderApi, providerApi } from '@/services/providerApi'
+import type { ApiServer } from '@/types/api'
+import type { ConfigResourceResult } from '@/types/configBackup'
+import type { ProviderMigrationResult, ProviderMigrationStrategy } from '@/types/providerMigration'
+import { buildConfigBackup, diffPlatformConfig } from '@/utils/configBackup'
+import { handleApiError } from '@/utils/errorHandler'
+
+export const PROVIDER_MIGRATION_STRATEGY_OPTIONS: {
+  label: string
+  value: ProviderMigrationStrategy
+  description: string
+}[] = [
+  { label: '跳过', value: 'skip', description: '目标服务器已有同名平台时不复制' },
+  { label: '重命名', value: 'rename', description: '以“名称（副本）”创建新平台' },
+  {
+    label: '合并',
+    value: 'merge',
+    description: '补充缺失的端点、密钥与模型，并更新有差异的配置，不删除已有资源',
+  },
+]
+
+/**
+ * 生成目标服务器上不重名的平台名称
+ * @param name 原名称
+ * @param existingNames 目标服务器上已有的名称
+ */
+function buildCopyName(name: string, existingNames: Set<string>): string {
+  let candidate = `${name}（副本）`
+  for (let index = 2; existingNames.has(candidate); index++) {
+    candidate = `${name}（副本 ${index}）`
+  }
+  return candidate
+}
+
+function summarizeStatus(resources: ConfigResourceResult[]): ProviderMigrationResult['status'] {
+  const failed = resources.filter((item) => item.status === 'failed')
+  if (failed.length === 0) return 'success'
+  const platformFailed = failed.some(
+    (item) => item.resource === 'platform' && item.action === 'create',
+  )
+  return platformFailed || failed.length === resources.length ? 'failed' : 'partial'
+}
+
+/**
+ * 跨服务器复制平台
+ * 从当前激活的服务器读取平台的完整配置（端点、密钥、模型别名与密钥关联），在目标服务器上重建
+ */
+export function useProviderMigration() {
+  const running = ref(false)
+  const progress = ref({ done: 0, total: 0 })
+
+  /**
+   * 复制平台到目标服务器，单个平台失败不影响其他平台
+   * @param platformIds 要复制的平台 ID
+   * @param target 目标服务器
+   * @param strategy 同名平台的处理方式
+   */
+  const migrate = async (
+    platformIds: number[],
+    target: ApiServer,
+    strategy: ProviderMigrationStrategy,
+  ): Promise<ProviderMigrationResult[]> => {
+    running.value = true
+    progress.value = { done: 0, total: platformIds.length }
+    const results: ProviderMigrationResult[] = []
+
+    try {
+      const targetApi = createProviderApi(http.forServer(target))
+      const [sources, targetPlatforms] = await Promise.all([
+        fetchLiveConfig(providerApi, platformIds),
+        targetApi.getPlatforms(false),
+      ])
+      const targetNames = new Set(targetPlatforms.map((platform) => platform.name))
+
+      for (const source of sources) {
+        const sourceName = source.platform.name
+        try {
+          // 复制时密钥需要明文写入目标服务器
+          const [platform] = (await buildConfigBackup([source], 'plain')).platforms
+          if (!platform) continue
+
+          const existing = targetPlatforms.find((item) => item.name === sourceName)
+          if (existing && strategy === 'skip') {
+            results.push({
+              sourceName,
+              targetName: sourceName,
+              status: 'skipped',
+              message: '目标服务器已存在同名平台',
+              resources: [],
+            })
+            continue
+          }
+
+          if (existing && strategy === 'rename') {
+            platform.name = buildCopyName(sourceName, targetNames)
+          }
+          const targetLive =
+            existing && strategy === 'merge'
+              ? ((await fetchLiveConfig(targetApi, [existing.id]))[0] ?? null)
+              : null
+
+          const diff = await diffPlatformConfig(platform, targetLive)
+          if (diff.action === 'unchanged') {
+            results.push({
+              sourceName,
+              targetName: platform.name,
+              status: 'skipped',
+              message: '目标服务器上的配置已一致',
+              resources: [],
+            })
+            continue
+          }
+
+          const resources = await applyPlatformDiff(diff, targetApi)
+          resources.push(
+            ...diff.skippedModels.map((name) => ({
+              resource: 'model' as const,
+              action: 'create' as const,
+              name,
+              status: 'skipped' as const,
+              error: '源平台中未关联密钥',
+            })),
+          )
+          targetNames.add(platform.name)
+          results.push({
+            sourceName,
+            targetName: platform.name,
+            status: summarizeStatus(resources),
+            resources,
+          })
+        } catch (error) {
+          results.push({
+            sourceName,
+            targetName: sourceName,
+            status: 'failed',
+            message: handleApiError(error, '复制平台'),
+            resources: [],
+          })
+        } finally {
+          progress.value.done++
+        }
+      }
+      return results
+    } finally {
+      running.value = false
+    }
+  }
+
+  return {
+    running,
+    progress,
+    migrate,
+  }
+}
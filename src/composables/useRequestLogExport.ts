@@ -0,0 +1,170 @@
+import { ref } from 'vue'
+import { useMessage } from 'naive-ui'
+import { collectRequestStats } from '@/services/statsApi'
+import type { RequestStat, RequestStatsFilterOptions } from '@/types/stats'
+import { handleApiError } from '@/utils/errorHandler'
+import { parseRequestType } from '@/utils/requestLogUtils'
+import { buildTimestampedFilename, downloadTextFile, toCsv, toNdjson } from '@/utils/exportUtils'
+
+export type RequestLogExportFormat = 'csv' | 'ndjson'
+
+export interface RequestLogExportOptions {
+  format: RequestLogExportFormat
+  maxRows: number
+}
+
+export interface RequestLogExportProgress {
+  fetched: number
+  total: number
+}
+
+/**
+ * 导出行：原始日志附加解析出的平台名称
+ */
+type ExportRow = RequestStat & { platform_name: string }
+
+const EXPORT_PAGE_SIZE = 100
+
+// CSV 列定义；响应体原文体积较大，仅在 NDJSON 中保留
+const CSV_COLUMNS: Array<{ title: string; value: (row: ExportRow) => unknown }> = [
+  { title: 'id', value: (row) => row.id },
+  { title: 'timestamp', value: (row) => row.timestamp },
+  { title: 'success', value: (row) => row.success },
+  { title: 'is_stream', value: (row) => parseRequestType(row).isStream },
+  { title: 'is_native', value: (row) => parseRequestType(row).isNative },
+  { title: 'original_model_name', value: (row) => row.original_model_name },
+  { title: 'model_name', value: (row) => row.model_name },
+  { title: 'platform_id', value: (row) => row.platform_id },
+  { title: 'platform_name', value: (row) => row.platform_name },
+  { title: 'api_key_id', value: (row) => row.api_key_id },
+  { title: 'model_id', value: (row) => row.model_id },
+  { title: 'duration_us', value: (row) => row.duration },
+  { title: 'first_byte_time_us', value: (row) => row.first_byte_time },
+  { title: 'prompt_tokens', value: (row) => row.prompt_tokens },
+  { title: 'completion_tokens', value: (row) => row.completion_tokens },
+  { title: 'total_tokens', value: (row) => row.total_tokens },
+  { title: 'http_status', value: (row) => row.http_status },
+  { title: 'error_code', value: (row) => row.error_code },
+  { title: 'error_level', value: (row) => row.error_level },
+  { title: 'error_from', value: (row) => row.error_from },
+  { title: 'upstream_error_type', value: (row) => row.upstream_error_type },
+  { title: 'upstream_error_code', value: (row) => row.upstream_error_code },
+  { title: 'upstream_error_message', value: (row) => row.upstream_error_message },
+  { title: 'upstream_request_id', value: (row) => row.upstream_request_id },
+  { title: 'cause_message', value: (row) => row.cause_message },
+  { title: 'error_msg', value: (row) => row.error_msg },
+]
+
+/**
+ * 请求日志导出
+ * 按当前筛选条件逐页拉取全部日志，解析平台名称后下载为 CSV 或 NDJSON
+ * @param resolvePlatformName 平台名称解析函数（复用页面的供应商名称缓存）
+ */
+export function useRequestLogExport(resolvePlatformName: (platformId: number) => Promise<string>) {
+  const message = useMessage()
+
+  const exporting = ref(false)
+  const progress = ref<RequestLogExportProgress>({ fetched: 0, total: 0 })
+  let abortController: AbortController | null = null
+
+  const buildExportRows = async (items: RequestStat[]): Promise<ExportRow[]> => {
+    const platformIds = [...new Set(items.map((item) => item.platform_id))].filter(
+      (id) => typeof id === 'number' && !isNaN(id),
+    )
+    const nameEntries = await Promise.all(
+      platformIds.map(async (id) => [id, await resolvePlatformName(id)] as const),
+    )
+    const nameMap = new Map(nameEntries)
+
+    return items.map((item) => ({
+      ...item,
+      platform_name: nameMap.get(item.platform_id) ?? '',
+    }))
+  }
+
+  /**
+   * 开始导出
+   * @param filter 当前筛选条件
+   * @param options 导出格式与行数上限
+   * @returns 是否完成下载
+   */
+  const startExport = async (
+    filter: RequestStatsFilterOptions,
+    options: RequestLogExportOptions,
+  ): Promise<boolean> => {
+    if (exporting.value) return false
+
+    exporting.value = true
+    progress.value = { fetched: 0, total: 0 }
+    abortController = new AbortController()
+
+    try {
+      const result = await collectRequestStats(filter, {
+        page_size: EXPORT_PAGE_SIZE,
+        max_rows: options.maxRows,
+        signal: abortController.signal,
+        onProgress: (next) => {
+          progress.value = next
+        },
+      })
+
+      if (result.aborted) {
+        message.info('已取消导出')
+        return false
+      }
+
+      if (result.items.length === 0) {
+        message.warning('当前筛选条件下没有可导出的日志')
+        return false
+      }
+
+      const rows = await buildExportRows(result.items)
+
+      if (options.format === 'csv') {
+        // 添加 BOM，确保 Excel 正确识别 UTF-8 中文
+        const content = `\uFEFF${toCsv(CSV_COLUMNS, rows)}`
+        downloadTextFile(
+          content,
+          buildTimestampedFilename('request-logs', 'csv'),
+          'text/csv;charset=utf-8',
+        )
+      } else {
+        downloadTextFile(
+          toNdjson(rows),
+          buildTimestampedFilename('request-logs', 'ndjson'),
+          'application/x-ndjson;charset=utf-8',
+        )
+      }
+
+      if (result.truncated) {
+        message.warning(
+          `已导出 ${rows.length} 条日志（达到上限，共匹配 ${result.total} 条），可缩小筛选范围后分批导出`,
+          { duration: 8000 },
+        )
+      } else {
+        message.success(`已导出 ${rows.length} 条日志`)
+      }
+      return true
+    } catch (error) {
+      message.error(handleApiError(error, '导出日志'))
+      return false
+    } finally {
+      exporting.value = false
+      abortController = null
+    }
+  }
+
+  /**
+   * 取消正在进行的导出，同时中止当前正在进行的分页请求
+   */
+  const cancelExport = () => {
+    abortController?.abort()
+  }
+
+  return {
+    exporting,
+    progress,
+    startExport,
+    cancelExport,
+  }
+}
@@ -0,0 +1,75 @@
+import { onScopeDispose, ref } from 'vue'
+import { collectRequestStats } from '@/services/statsApi'
+import type { CollectRequestStatsResult, RequestStatsFilterOptions } from '@/types/stats'
+import { handleApiError } from '@/utils/errorHandler'
+
+/**
+ * 请求日志扫描
+ * 按筛选条件在前端逐页拉取日志（受扫描上限约束），供分组、延迟分析等客户端聚合使用；
+ * 重复扫描时自动取消上一次未完成的扫描
+ * @param buildFilter 扫描时使用的筛选条件
+ * @param defaultLimit 默认扫描上限
+ */
+export function useRequestLogScan(
+  buildFilter: () => RequestStatsFilterOptions,
+  defaultLimit = 1000,
+) {
+  const scanLimit = ref<number | null>(defaultLimit)
+  const scanning = ref(false)
+  const scanError = ref<string | null>(null)
+  const result = ref<CollectRequestStatsResult | null>(null)
+
+  let abortController: AbortController | null = null
+
+  /**
+   * 开始扫描
+   * @param operation 失败时错误提示中的操作描述
+   * @returns 扫描结果，被取消或失败时返回 null
+   */
+  const scan = async (operation = '扫描请求日志'): Promise<CollectRequestStatsResult | null> => {
+    abortController?.abort()
+    const controller = new AbortController()
+    abortController = controller
+    scanning.value = true
+    scanError.value = null
+
+    try {
+      const next = await collectRequestStats(buildFilter(), {
+        max_rows: scanLimit.value ?? defaultLimit,
+        signal: controller.signal,
+      })
+      if (next.aborted || controller !== abortController) return null
+      result.value = next
+      return next
+    } catch (error) {
+      if (controller !== abortController) return null
+      scanError.value = handleApiError(error, operation)
+      return null
+    } finally {
+      if (controller === abortController) {
+        scanning.value = false
+        abortController = null
+      }
+    }
+  }
+
+  /**
+   * 取消正在进行的扫描
+   */
+  const cancel = () => {
+    abortController?.abort()
+    abortController = null
+    scanning.value = false
+  }
+
+  onScopeDispose(cancel)
+
+  return {
+    scanLimit,
+    scanning,
+    scanError,
+    result,
+    scan,
+    cancel,
+  }
+}
@@ -0,0 +1,230 @@
+import { onScopeDispose, reactive, ref } from 'vue'
+import { useMessage } from 'naive-ui'
+import { collectRequestStats, listRequestStats } from '@/services/statsApi'
+import type { RequestStat, RequestStatsFilterOptions } from '@/types/stats'
+import { handleApiError } from '@/utils/errorHandler'
+
+/**
+ * 追踪暂停原因
+ */
+export type RequestLogTailPauseReason = 'manual' | 'scroll' | 'detail' | 'error'
+
+export interface RequestLogTailOptions {
+  /** 当前筛选条件（每次轮询时重新读取） */
+  buildFilter: () => RequestStatsFilterOptions
+  /** 新日志到达后的回调（例如预加载平台名称） */
+  onEntries?: (items: RequestStat[]) => void | Promise<void>
+  /** 轮询间隔（毫秒） */
+  intervalMs?: number
+  /** 缓冲区最大条数，超出后丢弃最旧的日志 */
+  maxBuffer?: number
+}
+
+const SEED_PAGE_SIZE = 50
+const HIGHLIGHT_DURATION = 3000
+
+function sortByTimestampDesc(items: RequestStat[]): RequestStat[] {
+  return items.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+}
+
+/**
+ * 请求日志实时追踪
+ * 以最新一条日志的时间为游标轮询新日志，插入到缓冲区顶部并短暂高亮
+ * @param options 追踪选项
+ */
+export function useRequestLogTail(options: RequestLogTailOptions) {
+  const message = useMessage()
+  const intervalMs = options.intervalMs ?? 3000
+  const maxBuffer = options.maxBuffer ?? 500
+
+  const active = ref(false)
+  const pausedReason = ref<RequestLogTailPauseReason | null>(null)
+  const loading = ref(false)
+  const entries = ref<RequestStat[]>([])
+  const highlightedIds = reactive(new Set<number>())
+
+  let timer: ReturnType<typeof setTimeout> | null = null
+  // 游标：已知最新日志的时间；缓冲区为空时为开始追踪的时刻
+  let cursor = ''
+  // 每次开始 / 重启 / 停止都会递增，用于丢弃过期请求的结果
+  let generation = 0
+  // 正在轮询的代次，避免继续追踪时与进行中的轮询重叠，导致日志重复或乱序合并
+  let pollingGeneration: number | null = null
+
+  // 追踪模式下忽略结束时间，始终向“现在”延伸
+  const buildTailFilter = (): RequestStatsFilterOptions => {
+    const filter = { ...options.buildFilter() }
+    delete filter.end_time
+    return filter
+  }
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+  }
+
+  const schedule = () => {
+    clearTimer()
+    if (!active.value || pausedReason.value) return
+    timer = setTimeout(async () => {
+      await poll()
+      schedule()
+    }, intervalMs)
+  }
+
+  const highlight = (items: RequestStat[]) => {
+    const ids = items.map((item) => item.id)
+    ids.forEach((id) => highlightedIds.add(id))
+    setTimeout(() => {
+      ids.forEach((id) => highlightedIds.delete(id))
+    }, HIGHLIGHT_DURATION)
+  }
+
+  // 拉取最新一页作为初始缓冲区
+  const seed = async () => {
+    const currentGeneration = ++generation
+    loading.value = true
+    cursor = new Date().toISOString()
+    try {
+      const response = await listRequestStats({
+        ...buildTailFilter(),
+        page: 1,
+        page_size: SEED_PAGE_SIZE,
+      })
+      if (currentGeneration !== generation) return
+
+      entries.value = sortByTimestampDesc(response.data)
+      highlightedIds.clear()
+      if (entries.value[0]) {
+        cursor = entries.value[0].timestamp
+      }
+      await options.onEntries?.(entries.value)
+    } catch (error) {
+      if (currentGeneration !== generation) return
+      pausedReason.value = 'error'
+      message.error(handleApiError(error, '开始实时追踪'))
+    } finally {
+      if (currentGeneration === generation) loading.value = false
+    }
+  }
+
+  // 拉取游标之后的新日志
+  const poll = async () => {
+    if (!active.value || pausedReason.value || pollingGeneration === generation) return
+
+    const currentGeneration = generation
+    pollingGeneration = currentGeneration
+    const filter = buildTailFilter()
+    // 取筛选开始时间与游标中较晚的一个
+    const startTime =
+      filter.start_time && new Date(filter.start_time).getTime() > new Date(cursor).getTime()
+        ? filter.start_time
+        : cursor
+
+    try {
+      const result = await collectRequestStats(
+        { ...filter, start_time: startTime },
+        { max_rows: maxBuffer },
+      )
+      if (currentGeneration !== generation || pausedReason.value) return
+
+      // 开始时间包含游标本身，按 ID 去重
+      const knownIds = new Set(entries.value.map((item) => item.id))
+      const incoming = sortByTimestampDesc(result.items.filter((item) => !knownIds.has(item.id)))
+      if (incoming.length === 0) return
+
+      entries.value = [...incoming, ...entries.value].slice(0, maxBuffer)
+      cursor = incoming[0]!.timestamp
+      highlight(incoming)
+      await options.onEntries?.(incoming)
+    } catch (error) {
+      if (currentGeneration !== generation) return
+      pausedReason.value = 'error'
+      clearTimer()
+      message.error(handleApiError(error, '实时追踪日志'))
+    } finally {
+      if (pollingGeneration === currentGeneration) pollingGeneration = null
+    }
+  }
+
+  /**
+   * 开始追踪
+   */
+  const start = async () => {
+    active.value = true
+    pausedReason.value = null
+    await seed()
+    schedule()
+  }
+
+  /**
+   * 停止追踪并清空缓冲区
+   */
+  const stop = () => {
+    active.value = false
+    pausedReason.value = null
+    generation++
+    clearTimer()
+    entries.value = []
+    highlightedIds.clear()
+    loading.value = false
+  }
+
+  /**
+   * 暂停追踪（保留缓冲区）
+   */
+  const pause = (reason: RequestLogTailPauseReason = 'manual') => {
+    if (!active.value || pausedReason.value) return
+    pausedReason.value = reason
+    clearTimer()
+  }
+
+  /**
+   * 继续追踪，立即拉取暂停期间的新日志
+   */
+  const resume = async () => {
+    if (!active.value) return
+    pausedReason.value = null
+    await poll()
+    schedule()
+  }
+
+  /**
+   * 仅在因指定原因暂停时继续追踪，不影响手动、滚动等其他原因的暂停
+   * @param reason 暂停原因
+   */
+  const resumeIfPausedBy = async (reason: RequestLogTailPauseReason) => {
+    if (pausedReason.value !== reason) return
+    await resume()
+  }
+
+  /**
+   * 筛选条件变化时重新开始追踪
+   */
+  const restart = async () => {
+    if (!active.value) return
+    clearTimer()
+    pausedReason.value = null
+    await seed()
+    schedule()
+  }
+
+  onScopeDispose(stop)
+
+  return {
+    active,
+    pausedReason,
+    loading,
+    entries,
+    highlightedIds,
+    maxBuffer,
+    start,
+    stop,
+    pause,
+    resume,
+    resumeIfPausedBy,
+    restart,
+  }
+}
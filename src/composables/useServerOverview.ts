@@ -0,0 +1,108 @@
+import { ref } from 'vue'
+import { storeToRefs } from 'pinia'
+import { healthApi } from '@/services/healthApi'
+import { http } from '@/services/http'
+import { getDashboard, getRealtimeStats } from '@/services/statsApi'
+import { useApiServerStore } from '@/stores/apiServerStore'
+import type { ApiError, ApiServer } from '@/types/api'
+import type { HealthSummary } from '@/types/health'
+import type { DashboardOverview, RealtimeStats, StatsRange } from '@/types/stats'
+import { handleApiError } from '@/utils/errorHandler'
+
+/**
+ * 服务器请求失败的类型
+ */
+export type ServerOverviewErrorKind = 'timeout' | 'auth' | 'network' | 'other'
+
+/**
+ * 单个服务器的总览数据
+ * @property {boolean} loading - 是否正在加载
+ * @property {ServerOverviewErrorKind | null} errorKind - 首个失败请求的错误类型
+ * @property {string[]} errors - 失败请求的错误信息
+ */
+export interface ServerOverviewRow {
+  server: ApiServer
+  loading: boolean
+  overview: DashboardOverview | null
+  health: HealthSummary | null
+  realtime: RealtimeStats | null
+  errorKind: ServerOverviewErrorKind | null
+  errors: string[]
+}
+
+function classifyError(error: unknown): ServerOverviewErrorKind {
+  const apiError = error as ApiError
+  if (apiError.isTimeout) return 'timeout'
+  if (apiError.isAuthError || apiError.status === 403) return 'auth'
+  // fetch 无法建立连接（地址错误、跨域被拒绝等）时抛出 TypeError
+  if (error instanceof TypeError) return 'network'
+  return 'other'
+}
+
+/**
+ * 跨服务器总览
+ * 并行请求每个已配置服务器的仪表盘、健康摘要与实时数据，单个服务器失败不影响其他服务器
+ */
+export function useServerOverview() {
+  const apiServerStore = useApiServerStore()
+  const { servers } = storeToRefs(apiServerStore)
+
+  const rows = ref<ServerOverviewRow[]>([])
+  const loading = ref(false)
+  // 每次刷新递增，加载中再次刷新（如切换范围）时忽略旧一轮的结果
+  let refreshId = 0
+
+  const loadServer = async (row: ServerOverviewRow, range: StatsRange, requestId: number) => {
+    const client = http.forServer(row.server)
+    const [dashboard, health, realtime] = await Promise.allSettled([
+      getDashboard(range, client),
+      healthApi.getHealthSummary(client),
+      getRealtimeStats(client),
+    ])
+    if (requestId !== refreshId) return
+
+    row.overview = dashboard.status === 'fulfilled' ? dashboard.value.overview : null
+    row.health = health.status === 'fulfilled' ? health.value : null
+    row.realtime = realtime.status === 'fulfilled' ? realtime.value : null
+
+    const failures = [
+      { result: dashboard, operation: '获取仪表盘' },
+      { result: health, operation: '获取健康摘要' },
+      { result: realtime, operation: '获取实时数据' },
+    ].flatMap(({ result, operation }) =>
+      result.status === 'rejected' ? [{ reason: result.reason as unknown, operation }] : [],
+    )
+    row.errorKind = failures[0] ? classifyError(failures[0].reason) : null
+    row.errors = failures.map(({ reason, operation }) => handleApiError(reason, operation))
+    row.loading = false
+  }
+
+  /**
+   * 刷新所有服务器的数据
+   * @param range 仪表盘统计范围
+   */
+  const refresh = async (range: StatsRange) => {
+    const requestId = ++refreshId
+    loading.value = true
+    rows.value = servers.value.map((server) => ({
+      server: { ...server },
+      loading: true,
+      overview: null,
+      health: null,
+      realtime: null,
+      errorKind: null,
+      errors: [],
+    }))
+    try {
+      await Promise.all(rows.value.map((row) => loadServer(row, range, requestId)))
+    } finally {
+      if (requestId === refreshId) loading.value = false
+    }
+  }
+
+  return {
+    rows,
+    loading,
+    refresh,
+  }
+}
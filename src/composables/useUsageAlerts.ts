@@ -0,0 +1,169 @@
+import { reactive, ref, watch } from 'vue'
+import { useAlertStore } from '@/stores/alertStore'
+import { useApiServerStore } from '@/stores/apiServerStore'
+import { useNotificationStore } from '@/stores/notificationStore'
+import { getDashboard, getRealtimeStats } from '@/services/statsApi'
+import { healthApi } from '@/services/healthApi'
+import type { AlertRule, AlertRuleState } from '@/types/alert'
+import { buildAlertMessage, isAlertTriggered } from '@/utils/alertRules'
+
+const ALERT_SOURCE = '用量告警'
+
+let alertsInstance: ReturnType<typeof createUsageAlerts> | null = null
+
+function createUsageAlerts() {
+  const alertStore = useAlertStore()
+  const apiServerStore = useApiServerStore()
+  const notificationStore = useNotificationStore()
+
+  // 各规则最近一次的评估结果
+  const ruleStates = reactive(new Map<string, AlertRuleState>())
+  const checking = ref(false)
+  const lastCheckedAt = ref<string | null>(null)
+
+  let timer: number | null = null
+  let running = false
+
+  /**
+   * 读取规则对应的指标值；同一轮评估中相同接口只请求一次
+   */
+  function readMetric(rule: AlertRule, cache: Map<string, Promise<number>>): Promise<number> {
+    const range = rule.metric === 'success_rate' ? (rule.range ?? '24h') : '24h'
+    const key = rule.metric === 'success_rate' ? `${rule.metric}:${range}` : rule.metric
+    let pending = cache.get(key)
+    if (!pending) {
+      switch (rule.metric) {
+        case 'rpm':
+          pending = getRealtimeStats().then((stats) => stats.rpm)
+          break
+        case 'success_rate':
+          pending = getDashboard(range).then((response) => response.overview.success_rate * 100)
+          break
+        case 'daily_tokens':
+          pending = getDashboard('24h').then((response) => response.overview.total_tokens)
+          break
+        case 'health_issues':
+          pending = healthApi.getHealthIssues().then((response) => response.items.length)
+          break
+      }
+      cache.set(key, pending)
+    }
+    return pending
+  }
+
+  function sendBrowserNotification(title: string, body: string) {
+    if (!alertStore.settings?.browser_notification) return
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+    try {
+      new Notification(title, { body, tag: `pinai-alert-${title}` })
+    } catch (error) {
+      console.error('发送浏览器通知失败：', error)
+    }
+  }
+
+  /**
+   * 评估当前服务器的全部启用规则，仅在状态变化（触发 / 恢复）时发送通知
+   */
+  async function evaluate() {
+    const rules = alertStore.enabledRules
+    if (!apiServerStore.activeServerId || rules.length === 0 || checking.value) return
+
+    const serverId = apiServerStore.activeServerId
+    const cache = new Map<string, Promise<number>>()
+    checking.value = true
+    try {
+      const values = await Promise.allSettled(rules.map((rule) => readMetric(rule, cache)))
+      // 评估期间切换了服务器时丢弃结果
+      if (serverId !== apiServerStore.activeServerId) return
+
+      rules.forEach((rule, index) => {
+        const outcome = values[index]
+        const previous = ruleStates.get(rule.id)
+        if (!outcome || outcome.status === 'rejected') {
+          console.error('获取告警指标失败：', outcome?.reason)
+          ruleStates.set(rule.id, {
+            value: null,
+            triggered: previous?.triggered ?? false,
+            checked_at: new Date().toISOString(),
+          })
+          return
+        }
+
+        const value = outcome.value
+        const triggered = isAlertTriggered(rule, value)
+        ruleStates.set(rule.id, { value, triggered, checked_at: new Date().toISOString() })
+
+        if (triggered === (previous?.triggered ?? false)) return
+        const { title, content } = buildAlertMessage(rule, value, !triggered)
+        notificationStore.addNotification({
+          level: triggered ? 'warning' : 'success',
+          title,
+          content,
+          source: ALERT_SOURCE,
+        })
+        if (triggered) sendBrowserNotification(title, content)
+      })
+      lastCheckedAt.value = new Date().toISOString()
+    } finally {
+      checking.value = false
+    }
+  }
+
+  function schedule() {
+    if (timer) {
+      clearInterval(timer)
+      timer = null
+    }
+    if (!running || !alertStore.settings || alertStore.enabledRules.length === 0) return
+    const intervalMs = Math.max(15, alertStore.settings.interval_seconds) * 1000
+    timer = window.setInterval(evaluate, intervalMs)
+  }
+
+  function start() {
+    if (running) return
+    running = true
+    schedule()
+    evaluate()
+  }
+
+  function stop() {
+    running = false
+    schedule()
+  }
+
+  // 切换服务器后重置状态并重新评估
+  watch(
+    () => apiServerStore.activeServerId,
+    () => {
+      ruleStates.clear()
+      lastCheckedAt.value = null
+      schedule()
+      if (running) evaluate()
+    },
+  )
+
+  // 间隔或规则启用状态变化时重新计时
+  watch(
+    () => [alertStore.settings?.interval_seconds, alertStore.enabledRules.length],
+    () => schedule(),
+  )
+
+  return {
+    ruleStates,
+    checking,
+    lastCheckedAt,
+    evaluate,
+    start,
+    stop,
+  }
+}
+
+/**
+ * 用量告警的后台轮询（全局单例），在布局中启动一次即可
+ */
+export function useUsageAlerts() {
+  if (!alertsInstance) {
+    alertsInstance = createUsageAlerts()
+  }
+  return alertsInstance
+}
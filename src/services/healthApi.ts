@@ -1,8 +1,9 @@
-import { http } from '@/services/http'
+import { http, type HttpClient, type RequestOptions } from '@/services/http'
 import type {
   ApiKeyHealthListParams,
   ApiKeyHealthListResponse,
   HealthIssuesResponse,
+  HealthListFilterParams,
   HealthSummary,
   ModelHealthListParams,
   ModelHealthListResponse,
@@ -10,6 +11,31 @@ import type {
   PlatformHealthListResponse,
 } from '@/types/health'
 
+type HealthListParams = HealthListFilterParams & {
+  page?: number
+  page_size?: number
+  platform_id?: number
+}
+
+/**
+ * 拼接健康状态列表请求地址（分页、筛选与排序参数）
+ * @param path 接口路径
+ * @param params 查询参数
+ */
+function buildHealthListUrl(path: string, params?: HealthListParams): string {
+  const searchParams = new URLSearchParams()
+  if (params?.page) searchParams.set('page', String(params.page))
+  if (params?.page_size) searchParams.set('page_size', String(params.page_size))
+  if (params?.status !== undefined) searchParams.set('status', String(params.status))
+  if (params?.search) searchParams.set('search', params.search)
+  if (params?.platform_id) searchParams.set('platform_id', String(params.platform_id))
+  if (params?.sort_by) searchParams.set('sort_by', params.sort_by)
+  if (params?.sort_order) searchParams.set('sort_order', params.sort_order)
+
+  const queryString = searchParams.toString()
+  return queryString ? `${path}?${queryString}` : path
+}
+
 /**
  * 健康状态 API 服务层
  * 负责与后端健康状态相关的 HTTP 通信
@@ -18,58 +44,63 @@ export const healthApi = {
   /**
    * 获取健康状态摘要
    * 包含平台、API 密钥和模型的健康统计信息
+   * @param client 使用的 HTTP 客户端，默认请求当前激活的服务器
+   * @param requestOptions 请求配置（超时与取消信号）
    * @returns {Promise<HealthSummary>} 健康状态统计数据
    */
-  getHealthSummary(): Promise<HealthSummary> {
-    return http.get<HealthSummary>('/api/health/summary')
+  getHealthSummary(
+    client: HttpClient = http,
+    requestOptions?: RequestOptions,
+  ): Promise<HealthSummary> {
+    return client.get<HealthSummary>('/api/health/summary', requestOptions)
   },
 
   /**
    * 获取平台健康状态列表
-   * @param params 分页参数
+   * @param params 分页、筛选与排序参数
+   * @param requestOptions 请求配置（超时与取消信号）
    * @returns {Promise<PlatformHealthListResponse>} 平台健康状态列表
    */
-  getPlatformHealthList(params?: PlatformHealthListParams): Promise<PlatformHealthListResponse> {
-    const searchParams = new URLSearchParams()
-    if (params?.page) searchParams.set('page', String(params.page))
-    if (params?.page_size) searchParams.set('page_size', String(params.page_size))
-
-    const queryString = searchParams.toString()
-    const url = queryString ? `/api/health/platforms?${queryString}` : '/api/health/platforms'
-
-    return http.get<PlatformHealthListResponse>(url)
+  getPlatformHealthList(
+    params?: PlatformHealthListParams,
+    requestOptions?: RequestOptions,
+  ): Promise<PlatformHealthListResponse> {
+    return http.get<PlatformHealthListResponse>(
+      buildHealthListUrl('/api/health/platforms', params),
+      requestOptions,
+    )
   },
 
   /**
    * 获取 API 密钥健康状态列表
-   * @param params 分页参数
+   * @param params 分页、筛选与排序参数
+   * @param requestOptions 请求配置（超时与取消信号）
    * @returns {Promise<ApiKeyHealthListResponse>} API 密钥健康状态列表
    */
-  getApiKeyHealthList(params?: ApiKeyHealthListParams): Promise<ApiKeyHealthListResponse> {
-    const searchParams = new URLSearchParams()
-    if (params?.page) searchParams.set('page', String(params.page))
-    if (params?.page_size) searchParams.set('page_size', String(params.page_size))
-
-    const queryString = searchParams.toString()
-    const url = queryString ? `/api/health/keys?${queryString}` : '/api/health/keys'
-
-    return http.get<ApiKeyHealthListResponse>(url)
+  getApiKeyHealthList(
+    params?: ApiKeyHealthListParams,
+    requestOptions?: RequestOptions,
+  ): Promise<ApiKeyHealthListResponse> {
+    return http.get<ApiKeyHealthListResponse>(
+      buildHealthListUrl('/api/health/keys', params),
+      requestOptions,
+    )
   },
 
   /**
    * 获取模型健康状态列表
-   * @param params 分页参数
+   * @param params 分页、筛选与排序参数
+   * @param requestOptions 请求配置（超时与取消信号）
    * @returns {Promise<ModelHealthListResponse>} 模型健康状态列表
    */
-  getModelHealthList(params?: ModelHealthListParams): Promise<ModelHealthListResponse> {
-    const searchParams = new URLSearchParams()
-    if (params?.page) searchParams.set('page', String(params.page))
-    if (params?.page_size) searchParams.set('page_size', String(params.page_size))
-
-    const queryString = searchParams.toString()
-    const url = queryString ? `/api/health/models?${queryString}` : '/api/health/models'
-
-    return http.get<ModelHealthListResponse>(url)
+  getModelHealthList(
+    params?: ModelHealthListParams,
+    requestOptions?: RequestOptions,
+  ): Promise<ModelHealthListResponse> {
+    return http.get<ModelHealthListResponse>(
+      buildHealthListUrl('/api/health/models', params),
+      requestOptions,
+    )
   },
 
   /**
@@ -162,9 +193,10 @@ export const healthApi = {
   /**
    * 获取健康问题列表
    * 返回所有存在问题的资源（状态为不可用）
+   * @param requestOptions 请求配置（超时与取消信号）
    * @returns {Promise<HealthIssuesResponse>} 健康问题列表
    */
-  getHealthIssues(): Promise<HealthIssuesResponse> {
-    return http.get<HealthIssuesResponse>('/api/health/issues')
+  getHealthIssues(requestOptions?: RequestOptions): Promise<HealthIssuesResponse> {
+    return http.get<HealthIssuesResponse>('/api/health/issues', requestOptions)
   },
 }
@@ -0,0 +1,254 @@
+import {
+  HealthResourceType,
+  type HealthHistorySegment,
+  type HealthResourceRef,
+  type HealthSnapshotInput,
+} from '@/types/health'
+import { maskApiKey } from '@/utils/healthHistory'
+
+/**
+ * 健康历史的本地存储（IndexedDB）
+ * 后端只返回资源的当前状态，历史由前端在每次拉取健康列表时记录，按 API 服务器区分
+ */
+
+const DB_NAME = 'pinai-health-history'
+const DB_VERSION = 2
+const STORE_NAME = 'segments'
+const RESOURCE_INDEX = 'by_resource'
+const LAST_SEEN_INDEX = 'by_last_seen'
+
+// 历史保留时长
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function waitForTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          const store = request.result.createObjectStore(STORE_NAME, {
+            keyPath: 'id',
+            autoIncrement: true,
+          })
+          store.createIndex(RESOURCE_INDEX, [
+            'server_id',
+            'resource_type',
+            'resource_id',
+            'last_seen_at',
+          ])
+          store.createIndex(LAST_SEEN_INDEX, 'last_seen_at')
+        } else if (event.oldVersion < 2 && request.transaction) {
+          // 版本 1 以明文保存了密钥名称，升级时改为脱敏值
+          maskStoredApiKeys(request.transaction.objectStore(STORE_NAME))
+        }
+      }
+      // 其他标签页仍以旧版本打开数据库时升级会被阻塞，此时直接失败，由调用方记录错误
+      let blocked = false
+      request.onblocked = () => {
+        blocked = true
+        reject(new Error('健康历史数据库升级被其他标签页阻塞，请关闭其他标签页后重试'))
+      }
+      request.onsuccess = () => {
+        // 阻塞解除后才打开成功的连接已无人使用，关闭以免阻塞后续升级
+        if (blocked) {
+          request.result.close()
+          return
+        }
+        resolve(request.result)
+      }
+      request.onerror = () => reject(request.error)
+    }).then(async (db) => {
+      // 其他标签页升级数据库时关闭当前连接，下次读写时重新打开
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      await pruneExpired(db)
+      return db
+    })
+    // 打开失败时允许下次重试
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+function maskStoredApiKeys(store: IDBObjectStore) {
+  const request = store.openCursor()
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+    const segment = cursor.value as HealthHistorySegment
+    if (segment.resource_type === HealthResourceType.APIKey) {
+      cursor.update({ ...segment, resource_name: maskApiKey(segment.resource_name) })
+    }
+    cursor.continue()
+  }
+}
+
+async function pruneExpired(db: IDBDatabase) {
+  const transaction = db.transaction(STORE_NAME, 'readwrite')
+  const index = transaction.objectStore(STORE_NAME).index(LAST_SEEN_INDEX)
+  const request = index.openCursor(IDBKeyRange.upperBound(Date.now() - RETENTION_MS))
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (cursor) {
+      cursor.delete()
+      cursor.continue()
+    }
+  }
+  await waitForTransaction(transaction)
+}
+
+function resourceRange(
+  serverId: string,
+  resourceType: HealthResourceType,
+  resourceId: number,
+  since = 0,
+): IDBKeyRange {
+  return IDBKeyRange.bound(
+    [serverId, resourceType, resourceId, since],
+    [serverId, resourceType, resourceId, Number.MAX_SAFE_INTEGER],
+  )
+}
+
+function isSameState(segment: HealthHistorySegment, snapshot: HealthSnapshotInput): boolean {
+  return (
+    segment.status === snapshot.status &&
+    segment.retry_count === snapshot.retry_count &&
+    segment.success_count === snapshot.success_count &&
+    segment.error_count === snapshot.error_count &&
+    segment.last_check_at === snapshot.last_check_at
+  )
+}
+
+/**
+ * 记录一批健康快照：与资源最近一个片段相同时延长该片段，否则新增片段
+ * @param serverId API 服务器 ID
+ * @param snapshots 本次拉取到的资源状态
+ */
+export async function recordHealthSnapshots(
+  serverId: string,
+  snapshots: HealthSnapshotInput[],
+): Promise<void> {
+  if (snapshots.length === 0) return
+
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAME, 'readwrite')
+  const store = transaction.objectStore(STORE_NAME)
+  const index = store.index(RESOURCE_INDEX)
+  const now = Date.now()
+
+  for (const snapshot of snapshots) {
+    const request = index.openCursor(
+      resourceRange(serverId, snapshot.resource_type, snapshot.resource_id),
+      'prev',
+    )
+    request.onsuccess = () => {
+      const latest = request.result?.value as HealthHistorySegment | undefined
+      if (latest && isSameState(latest, snapshot)) {
+        store.put({
+          ...latest,
+          resource_name: snapshot.resource_name,
+          last_seen_at: now,
+          observations: latest.observations + 1,
+        })
+        return
+      }
+      const segment: HealthHistorySegment = {
+        ...snapshot,
+        server_id: serverId,
+        first_seen_at: now,
+        last_seen_at: now,
+        observations: 1,
+      }
+      store.add(segment)
+    }
+  }
+
+  await waitForTransaction(transaction)
+}
+
+/**
+ * 查询资源的健康历史片段
+ * @param serverId API 服务器 ID
+ * @param target 资源
+ * @param since 只返回最后记录时间不早于该时间戳的片段
+ * @returns 按时间升序排列的片段
+ */
+export async function getHealthHistory(
+  serverId: string,
+  target: HealthResourceRef,
+  since = 0,
+): Promise<HealthHistorySegment[]> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAME, 'readonly')
+  const index = transaction.objectStore(STORE_NAME).index(RESOURCE_INDEX)
+  const segments = await promisifyRequest(
+    index.getAll(resourceRange(serverId, target.resource_type, target.resource_id, since)),
+  )
+  return (segments as HealthHistorySegment[]).sort((a, b) => a.first_seen_at - b.first_seen_at)
+}
+
+/**
+ * 清除资源的健康历史
+ * @param serverId API 服务器 ID
+ * @param target 资源
+ */
+export async function clearHealthHistory(
+  serverId: string,
+  target: HealthResourceRef,
+): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAME, 'readwrite')
+  const index = transaction.objectStore(STORE_NAME).index(RESOURCE_INDEX)
+  const request = index.openCursor(
+    resourceRange(serverId, target.resource_type, target.resource_id),
+  )
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (cursor) {
+      cursor.delete()
+      cursor.continue()
+    }
+  }
+  await waitForTransaction(transaction)
+}
+
+/**
+ * 清除指定服务器的全部健康历史（删除服务器时调用）
+ * @param serverId API 服务器 ID
+ */
+export async function clearServerHealthHistory(serverId: string): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAME, 'readwrite')
+  const index = transaction.objectStore(STORE_NAME).index(RESOURCE_INDEX)
+  // 复合键中数组大于任意数字与字符串，[serverId, []] 可作为该服务器所有记录的上界
+  const request = index.openCursor(IDBKeyRange.bound([serverId], [serverId, []]))
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (cursor) {
+      cursor.delete()
+      cursor.continue()
+    }
+  }
+  await waitForTransaction(transaction)
+}
@@ -1,11 +1,190 @@
 import { useApiServerStore } from '@/stores/apiServerStore'
-import type { ApiError } from '@/types/api'
+import type { ApiError, ApiServer } from '@/types/api'
 
-class HttpClient {
-  async request<T>(url: string, config: RequestInit = {}): Promise<T> {
+const DEFAULT_TIMEOUT = 10000
+const DEFAULT_RETRIES = 3
+const DEFAULT_RETRY_DELAY = 500
+const DEFAULT_MAX_RETRY_DELAY = 10000
+// 响应缓存的最大条目数，超出时淘汰最久未使用的条目
+const MAX_CACHE_ENTRIES = 200
+
+// 默认自动重试的只读方法，写操作重试可能重复提交（如批量接口重复创建后台任务），需调用方显式开启
+const RETRYABLE_METHODS = new Set(['GET', 'HEAD'])
+// 可重试的状态码：请求超时、限流与服务端临时故障
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504])
+
+/**
+ * 客户端默认配置
+ * @property {ApiServer} server - 固定请求的服务器，未指定时使用当前激活的服务器
+ * @property {number} timeout - 默认超时时间（毫秒），小于等于 0 表示不限制
+ * @property {number} retries - GET/HEAD 请求在网络错误或服务端临时故障时的最大重试次数
+ * @property {number} retryDelay - 首次重试的基础等待时间（毫秒），之后按指数增长
+ * @property {number} maxRetryDelay - 单次重试的最长等待时间（毫秒），Retry-After 超过该值时不再重试
+ * @property {number} cacheTtl - GET 响应的缓存时间（毫秒），0 表示不缓存
+ */
+export interface HttpClientOptions {
+  server?: ApiServer
+  timeout?: number
+  retries?: number
+  retryDelay?: number
+  maxRetryDelay?: number
+  cacheTtl?: number
+}
+
+/**
+ * 单次请求配置，优先于客户端默认配置
+ * 相同服务器、相同地址的 GET 请求并发时会合并为一次：
+ * 底层请求沿用首个调用方的超时、重试与缓存配置，后加入的调用方的这些配置不生效；
+ * 每个调用方的取消信号只结束自己的等待，所有调用方都取消后才中止底层请求
+ * @property {number} timeout - 本次请求的超时时间（毫秒），小于等于 0 表示不限制
+ * @property {AbortSignal} signal - 调用方的取消信号，取消后抛出 isCanceled 错误
+ * @property {number} retries - 本次请求的最大重试次数，0 表示不重试；写操作仅在显式指定时重试
+ * @property {number} cacheTtl - 本次 GET 请求的缓存时间（毫秒），0 表示不读取也不写入缓存
+ */
+export interface RequestOptions {
+  timeout?: number
+  signal?: AbortSignal
+  retries?: number
+  cacheTtl?: number
+}
+
+interface InflightRequest {
+  promise: Promise<unknown>
+  controller: AbortController
+  subscribers: number
+}
+
+interface CachedResponse {
+  data: unknown
+  expiresAt: number
+}
+
+// 进行中的 GET 请求与响应缓存，按服务器与完整地址索引，所有客户端实例共享
+const inflightRequests = new Map<string, InflightRequest>()
+const responseCache = new Map<string, CachedResponse>()
+// 每次清除缓存时递增，清除前发出的请求返回后不再写入缓存
+let cacheGeneration = 0
+
+/**
+ * 读取未过期的缓存，命中时移到末尾以便按最近使用淘汰，过期条目直接删除
+ */
+function getCachedResponse(key: string): CachedResponse | undefined {
+  const cached = responseCache.get(key)
+  if (!cached) return undefined
+  responseCache.delete(key)
+  if (cached.expiresAt <= Date.now()) return undefined
+  responseCache.set(key, cached)
+  return cached
+}
+
+/**
+ * 写入缓存，先清理过期条目，仍超出上限时淘汰最久未使用的条目
+ */
+function setCachedResponse(key: string, data: unknown, ttl: number) {
+  const now = Date.now()
+  responseCache.delete(key)
+  for (const [cachedKey, cached] of responseCache) {
+    if (cached.expiresAt <= now) responseCache.delete(cachedKey)
+  }
+  for (const oldestKey of responseCache.keys()) {
+    if (responseCache.size < MAX_CACHE_ENTRIES) break
+    responseCache.delete(oldestKey)
+  }
+  responseCache.set(key, { data, expiresAt: now + ttl })
+}
+
+function createCanceledError(): ApiError {
+  const error = new Error('请求已取消') as ApiError
+  error.isCanceled = true
+  return error
+}
+
+/**
+ * 等待指定时间，期间取消时抛出 isCanceled 错误
+ * @param ms 等待时间（毫秒）
+ * @param signal 取消信号
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createCanceledError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createCanceledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * 等待共享的请求结果，调用方取消时只放弃自己的等待，不影响其他调用方
+ * @param promise 共享的请求
+ * @param signal 调用方的取消信号
+ */
+function waitWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createCanceledError())
+      return
+    }
+    const onAbort = () => reject(createCanceledError())
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期）
+ * @returns 需要等待的毫秒数，无法解析时返回 undefined
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+export class HttpClient {
+  constructor(private readonly defaults: HttpClientOptions = {}) {}
+
+  /**
+   * 创建请求指定服务器的客户端，用于在不切换激活服务器的情况下访问其他服务器
+   * @param server 目标服务器
+   */
+  forServer(server: ApiServer): HttpClient {
+    return new HttpClient({ ...this.defaults, server })
+  }
+
+  /**
+   * 清除 GET 响应缓存
+   * 写操作成功或失败后会自动清除对应服务器的缓存
+   * @param server 仅清除指定服务器的缓存，默认为客户端固定的服务器，均未指定时清除全部
+   */
+  invalidateCache(server: ApiServer | undefined = this.defaults.server) {
+    cacheGeneration++
+    // 进行中的请求可能返回修改前的数据，同样不再复用
+    for (const store of [responseCache, inflightRequests]) {
+      for (const key of store.keys()) {
+        if (!server || key.startsWith(`${server.id}|`)) store.delete(key)
+      }
+    }
+  }
+
+  async request<T>(
+    url: string,
+    config: RequestInit = {},
+    options: RequestOptions = {},
+  ): Promise<T> {
     // 延迟获取 store，避免在 Pinia 尚未安装时触发 getActivePinia 报错
-    const apiServerStore = useApiServerStore()
-    const activeServer = apiServerStore.activeServer
+    const activeServer = this.defaults.server ?? useApiServerStore().activeServer
 
     if (!activeServer) {
       const error = new Error('未选择 API 服务器') as ApiError
@@ -24,8 +203,143 @@ class HttpClient {
       fullUrl = new URL(url, baseUrl).toString()
     }
 
+    const method = (config.method ?? 'GET').toUpperCase()
+    if (method !== 'GET') {
+      try {
+        return await this.send<T>(activeServer, fullUrl, config, options, options.signal)
+      } finally {
+        // 写操作后清除该服务器的缓存，避免读到修改前的数据
+        this.invalidateCache(activeServer)
+      }
+    }
+
+    const key = `${activeServer.id}|${fullUrl}`
+    const cacheTtl = options.cacheTtl ?? this.defaults.cacheTtl ?? 0
+    const cached = cacheTtl > 0 ? getCachedResponse(key) : undefined
+    if (cached) {
+      return structuredClone(cached.data) as T
+    }
+
+    // 相同的 GET 请求进行中时复用同一个请求，超时、重试与缓存配置以发起请求的调用方为准
+    let entry = inflightRequests.get(key)
+    const shared = entry !== undefined
+    if (!entry) {
+      const controller = new AbortController()
+      const generation = cacheGeneration
+      const promise = this.send<T>(activeServer, fullUrl, config, options, controller.signal).then(
+        (data) => {
+          if (cacheTtl > 0 && generation === cacheGeneration) {
+            setCachedResponse(key, structuredClone(data), cacheTtl)
+          }
+          return data
+        },
+      )
+      const created: InflightRequest = { promise, controller, subscribers: 0 }
+      // 所有调用方都取消后无人等待结果，这里兜底处理 rejection
+      promise
+        .catch(() => undefined)
+        .finally(() => {
+          if (inflightRequests.get(key) === created) inflightRequests.delete(key)
+        })
+      inflightRequests.set(key, created)
+      entry = created
+    }
+
+    const current = entry
+    current.subscribers++
+    try {
+      const data = await waitWithSignal(current.promise, options.signal)
+      // 复用的结果返回副本，避免调用方之间互相修改数据
+      return (shared ? structuredClone(data) : data) as T
+    } finally {
+      current.subscribers--
+      // 所有调用方都已取消时中止底层请求
+      if (current.subscribers === 0 && options.signal?.aborted) {
+        current.controller.abort()
+        if (inflightRequests.get(key) === current) inflightRequests.delete(key)
+      }
+    }
+  }
+
+  /**
+   * 发送请求，在网络错误或服务端临时故障时按指数退避重试
+   * GET/HEAD 默认重试，其他方法仅在调用方显式指定 retries 时重试
+   */
+  private async send<T>(
+    server: ApiServer,
+    fullUrl: string,
+    config: RequestInit,
+    options: RequestOptions,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const method = (config.method ?? 'GET').toUpperCase()
+    const retries = RETRYABLE_METHODS.has(method)
+      ? (options.retries ?? this.defaults.retries ?? DEFAULT_RETRIES)
+      : (options.retries ?? 0)
+    const timeout = options.timeout ?? this.defaults.timeout ?? DEFAULT_TIMEOUT
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchOnce<T>(server, fullUrl, config, timeout, signal)
+      } catch (error: unknown) {
+        const delay = attempt < retries ? this.getRetryDelay(error, attempt) : null
+        if (delay === null) throw error
+        await sleep(delay, signal)
+      }
+    }
+  }
+
+  /**
+   * 计算下一次重试前的等待时间
+   * @returns 等待毫秒数，不应重试时返回 null
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    const apiError = error as ApiError
+    // 超时重试会成倍延长等待，取消说明结果已不再需要，二者均不重试
+    if (apiError.isTimeout || apiError.isCanceled) return null
+
+    // fetch 在网络不可达时抛出 TypeError
+    const isNetworkError = error instanceof TypeError
+    if (!isNetworkError && !(apiError.status && RETRYABLE_STATUS.has(apiError.status))) {
+      return null
+    }
+
+    const maxDelay = this.defaults.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY
+    if (apiError.retryAfter !== undefined) {
+      return apiError.retryAfter <= maxDelay ? apiError.retryAfter : null
+    }
+
+    const backoff = Math.min(
+      maxDelay,
+      (this.defaults.retryDelay ?? DEFAULT_RETRY_DELAY) * 2 ** attempt,
+    )
+    // 加入随机抖动，避免多个请求在服务恢复时同时重试
+    return backoff / 2 + Math.random() * (backoff / 2)
+  }
+
+  private async fetchOnce<T>(
+    server: ApiServer,
+    fullUrl: string,
+    config: RequestInit,
+    timeout: number,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    // 超时与调用方取消共用同一个 controller，通过 timedOut 区分两者
     const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 10000)
+    let timedOut = false
+    const timeoutId =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true
+            controller.abort()
+          }, timeout)
+        : null
+    const abortByCaller = () => controller.abort()
+    if (signal?.aborted) {
+      controller.abort()
+    } else {
+      signal?.addEventListener('abort', abortByCaller, { once: true })
+    }
 
     try {
       // 构建请求头，包含可能的认证信息
@@ -39,8 +353,8 @@ class HttpClient {
       }
 
       // 如果配置了 Bearer Token，添加到请求头
-      if (activeServer.token) {
-        headers.Authorization = `Bearer ${activeServer.token}`
+      if (server.token) {
+        headers.Authorization = `Bearer ${server.token}`
       }
 
       const response = await fetch(fullUrl, {
@@ -57,6 +371,7 @@ class HttpClient {
         error.status = response.status
         error.statusText = response.statusText
         error.body = errorBody
+        error.retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
 
         // 如果是授权失败 (401)，标记服务器为需要重新认证
         if (response.status === 401) {
@@ -73,8 +388,11 @@ class HttpClient {
 
       return await response.json()
     } catch (error: unknown) {
-      // 处理超时错误
+      // 处理超时与取消
       if (error instanceof Error && error.name === 'AbortError') {
+        if (!timedOut) {
+          throw createCanceledError()
+        }
         const timeoutError = new Error('请求超时，请检查网络连接') as ApiError
         timeoutError.isTimeout = true
         throw timeoutError
@@ -82,32 +400,33 @@ class HttpClient {
       // 重新抛出其他错误
       throw error
     } finally {
-      clearTimeout(timeoutId)
+      if (timeoutId) clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', abortByCaller)
     }
   }
 
-  get<T>(url: string) {
-    return this.request<T>(url)
+  get<T>(url: string, options?: RequestOptions) {
+    return this.request<T>(url, {}, options)
   }
 
-  post<T>(url: string, data: unknown) {
-    return this.request<T>(url, { method: 'POST', body: JSON.stringify(data) })
+  post<T>(url: string, data: unknown, options?: RequestOptions) {
+    return this.request<T>(url, { method: 'POST', body: JSON.stringify(data) }, options)
   }
 
-  put<T>(url: string, data: unknown) {
-    return this.request<T>(url, { method: 'PUT', body: JSON.stringify(data) })
+  put<T>(url: string, data: unknown, options?: RequestOptions) {
+    return this.request<T>(url, { method: 'PUT', body: JSON.stringify(data) }, options)
   }
 
-  patch<T>(url: string, data: unknown) {
-    return this.request<T>(url, { method: 'PATCH', body: JSON.stringify(data) })
+  patch<T>(url: string, data: unknown, options?: RequestOptions) {
+    return this.request<T>(url, { method: 'PATCH', body: JSON.stringify(data) }, options)
   }
 
-  delete<T>(url: string, data?: unknown) {
+  delete<T>(url: string, data?: unknown, options?: RequestOptions) {
     const config: RequestInit = { method: 'DELETE' }
     if (data) {
       config.body = JSON.stringify(data)
     }
-    return this.request<T>(url, config)
+    return this.request<T>(url, config, options)
   }
 }
 
@@ -1,4 +1,4 @@
-import { http } from '@/services/http'
+import { http, type HttpClient, type RequestOptions } from '@/services/http'
 import type {
   Platform,
   PlatformWithHealth,
@@ -13,6 +13,10 @@ import type {
   ModelBatchTaskSummary,
 } from '@/types/provider'
 
+// 不含健康状态的配置数据在短时间内复用响应，写操作后 HttpClient 会自动清除缓存
+// 批量模型接口只是提交后台任务，任务结束时需要再次清除缓存
+const CONFIG_CACHE_TTL = 5000
+
 const waitFor = async (intervalMs: number) => {
   if (intervalMs <= 0) return
   await new Promise((resolve) => setTimeout(resolve, intervalMs))
@@ -21,8 +25,9 @@ const waitFor = async (intervalMs: number) => {
 /**
  * 供应商 API 服务层
  * 负责与后端 API 进行所有与供应商相关的 HTTP 通信。
+ * @param client 使用的 HTTP 客户端，默认请求当前激活的服务器
  */
-export const providerApi = {
+export const createProviderApi = (client: HttpClient = http) => ({
   // --- Provider ---
   /**
    * 创建一个新的供应方 (平台 + 模型 + 密钥)。
@@ -30,7 +35,7 @@ export const providerApi = {
    * @returns {Promise<Platform>} 创建成功的平台信息。
    */
   createProvider(data: ProviderCreateRequest): Promise<Platform> {
-    return http.post<Platform>('/api/providers', data)
+    return client.post<Platform>('/api/providers', data)
   },
 
   // --- Platform ---
@@ -40,7 +45,7 @@ export const providerApi = {
    * @returns {Promise<void>} 删除操作成功（204 No Content）。
    */
   deletePlatform(id: number): Promise<void> {
-    return http.delete<void>(`/api/platforms/${id}`)
+    return client.delete<void>(`/api/platforms/${id}`)
   },
 
   /**
@@ -49,7 +54,7 @@ export const providerApi = {
    * @returns {Promise<Platform>} 创建成功的平台信息（包含 id）。
    */
   createPlatform(data: Omit<Platform, 'id'>): Promise<Platform> {
-    return http.post<Platform>('/api/platforms', data)
+    return client.post<Platform>('/api/platforms', data)
   },
 
   /**
@@ -59,7 +64,10 @@ export const providerApi = {
    */
   getPlatforms(includeHealth = true): Promise<PlatformWithHealth[]> {
     const query = includeHealth ? '?include=health' : ''
-    return http.get<PlatformWithHealth[]>(`/api/platforms${query}`)
+    return client.get<PlatformWithHealth[]>(
+      `/api/platforms${query}`,
+      includeHealth ? undefined : { cacheTtl: CONFIG_CACHE_TTL },
+    )
   },
 
   /**
@@ -68,7 +76,7 @@ export const providerApi = {
    * @returns {Promise<Platform>} 平台详细信息。
    */
   getPlatformById(id: number): Promise<Platform> {
-    return http.get<Platform>(`/api/platforms/${id}`)
+    return client.get<Platform>(`/api/platforms/${id}`, { cacheTtl: CONFIG_CACHE_TTL })
   },
 
   /**
@@ -78,7 +86,7 @@ export const providerApi = {
    * @returns {Promise<Platform>} 更新成功的平台信息。
    */
   updatePlatform(id: number, data: PlatformUpdateRequest): Promise<Platform> {
-    return http.put<Platform>(`/api/platforms/${id}`, data)
+    return client.put<Platform>(`/api/platforms/${id}`, data)
   },
 
   // --- Endpoint ---
@@ -92,7 +100,7 @@ export const providerApi = {
     platformId: number,
     data: Omit<Endpoint, 'id' | 'platform_id'>,
   ): Promise<Endpoint> {
-    return http.post<Endpoint>(`/api/platforms/${platformId}/endpoints`, data)
+    return client.post<Endpoint>(`/api/platforms/${platformId}/endpoints`, data)
   },
 
   /**
@@ -105,7 +113,7 @@ export const providerApi = {
     endpointId: number,
     data: Omit<Endpoint, 'id' | 'platform_id'>,
   ): Promise<Endpoint> {
-    return http.put<Endpoint>(`/api/endpoints/${endpointId}`, data)
+    return client.put<Endpoint>(`/api/endpoints/${endpointId}`, data)
   },
 
   /**
@@ -114,7 +122,7 @@ export const providerApi = {
    * @returns {Promise<{ message: string }>} 删除操作的确认信息。
    */
   deleteEndpoint(endpointId: number): Promise<{ message: string }> {
-    return http.delete<{ message: string }>(`/api/endpoints/${endpointId}`)
+    return client.delete<{ message: string }>(`/api/endpoints/${endpointId}`)
   },
 
   /**
@@ -127,7 +135,7 @@ export const providerApi = {
     platformId: number,
     endpoints: Array<Omit<Endpoint, 'id' | 'platform_id'>>,
   ): Promise<{ endpoints: Endpoint[]; total_count: number; created_count: number }> {
-    return http.post<{ endpoints: Endpoint[]; total_count: number; created_count: number }>(
+    return client.post<{ endpoints: Endpoint[]; total_count: number; created_count: number }>(
       `/api/platforms/${platformId}/endpoints/batch`,
       { endpoints },
     )
@@ -150,7 +158,7 @@ export const providerApi = {
       is_default?: boolean
     }>,
   ): Promise<{ endpoints: Endpoint[]; total_count: number; updated_count: number }> {
-    return http.put<{ endpoints: Endpoint[]; total_count: number; updated_count: number }>(
+    return client.put<{ endpoints: Endpoint[]; total_count: number; updated_count: number }>(
       `/api/platforms/${platformId}/endpoints/batch`,
       { endpoints },
     )
@@ -161,11 +169,19 @@ export const providerApi = {
    * 获取特定平台的模型列表。
    * @param {number} providerId - 供应方 (平台) ID。
    * @param {boolean} includeHealth - 是否包含健康状态信息，默认为 true
+   * @param {RequestOptions} requestOptions - 请求配置（超时与取消信号）
    * @returns {Promise<ModelWithHealth[]>} 模型列表（可能包含健康状态）。
    */
-  getModelsByProvider(providerId: number, includeHealth = true): Promise<ModelWithHealth[]> {
+  getModelsByProvider(
+    providerId: number,
+    includeHealth = true,
+    requestOptions?: RequestOptions,
+  ): Promise<ModelWithHealth[]> {
     const query = includeHealth ? '?include=health' : ''
-    return http.get<ModelWithHealth[]>(`/api/platforms/${providerId}/models${query}`)
+    return client.get<ModelWithHealth[]>(`/api/platforms/${providerId}/models${query}`, {
+      ...(includeHealth ? {} : { cacheTtl: CONFIG_CACHE_TTL }),
+      ...requestOptions,
+    })
   },
 
   /**
@@ -180,7 +196,7 @@ export const providerApi = {
       api_keys: Array<{ id: number }>
     },
   ): Promise<Model> {
-    return http.post<Model>(`/api/platforms/${providerId}/models`, data)
+    return client.post<Model>(`/api/platforms/${providerId}/models`, data)
   },
 
   /**
@@ -190,7 +206,7 @@ export const providerApi = {
    * @returns {Promise<Model>} 更新后的模型信息。
    */
   updateModel(modelId: number, data: Partial<Omit<Model, 'id' | 'platform_id'>>): Promise<Model> {
-    return http.put<Model>(`/api/models/${modelId}`, data)
+    return client.put<Model>(`/api/models/${modelId}`, data)
   },
 
   /**
@@ -208,7 +224,7 @@ export const providerApi = {
       api_keys?: Array<{ id: number }>
     }>,
   ): Promise<BatchTaskAcceptedResponse> {
-    return http.put<BatchTaskAcceptedResponse>(`/api/platforms/${providerId}/models/batch`, {
+    return client.put<BatchTaskAcceptedResponse>(`/api/platforms/${providerId}/models/batch`, {
       models,
     })
   },
@@ -219,7 +235,7 @@ export const providerApi = {
    * @returns {Promise<{ message: string }>} 删除操作的确认信息。
    */
   deleteModel(modelId: number): Promise<{ message: string }> {
-    return http.delete<{ message: string }>(`/api/models/${modelId}`)
+    return client.delete<{ message: string }>(`/api/models/${modelId}`)
   },
 
   /**
@@ -229,7 +245,7 @@ export const providerApi = {
    * @returns {Promise<{total_count: number, deleted_count: number}>} 批量删除结果。
    */
   deleteModelsBatch(providerId: number, modelIds: number[]): Promise<BatchTaskAcceptedResponse> {
-    return http.delete<BatchTaskAcceptedResponse>(`/api/platforms/${providerId}/models/batch`, {
+    return client.delete<BatchTaskAcceptedResponse>(`/api/platforms/${providerId}/models/batch`, {
       model_ids: modelIds,
     })
   },
@@ -248,7 +264,7 @@ export const providerApi = {
       }
     >,
   ): Promise<BatchTaskAcceptedResponse> {
-    return http.post<BatchTaskAcceptedResponse>(`/api/platforms/${providerId}/models/batch`, {
+    return client.post<BatchTaskAcceptedResponse>(`/api/platforms/${providerId}/models/batch`, {
       models,
     })
   },
@@ -257,11 +273,12 @@ export const providerApi = {
    * 查询模型批量任务详情。
    */
   getModelBatchTask(taskId: number): Promise<ModelBatchTaskSummary> {
-    return http.get<ModelBatchTaskSummary>(`/api/model-tasks/${taskId}`)
+    return client.get<ModelBatchTaskSummary>(`/api/model-tasks/${taskId}`)
   },
 
   /**
    * 轮询模型批量任务，直到成功或失败。
+   * 任务结束后清除响应缓存，避免任务执行期间缓存的旧数据继续被复用。
    */
   async pollModelBatchTask(
     taskId: number,
@@ -275,6 +292,7 @@ export const providerApi = {
       const task = await this.getModelBatchTask(taskId)
 
       if (task.status === 'succeeded' || task.status === 'failed') {
+        client.invalidateCache()
         return task
       }
 
@@ -291,11 +309,19 @@ export const providerApi = {
    * 获取平台的 API 密钥列表 (不含密钥值)。
    * @param {number} providerId - 供应方 (平台) ID。
    * @param {boolean} includeHealth - 是否包含健康状态信息，默认为 true
+   * @param {RequestOptions} requestOptions - 请求配置（超时与取消信号）
    * @returns {Promise<KeyWithHealth[]>} API 密钥列表（可能包含健康状态）。
    */
-  getProviderKeys(providerId: number, includeHealth = true): Promise<KeyWithHealth[]> {
+  getProviderKeys(
+    providerId: number,
+    includeHealth = true,
+    requestOptions?: RequestOptions,
+  ): Promise<KeyWithHealth[]> {
     const query = includeHealth ? '?include=health' : ''
-    return http.get<KeyWithHealth[]>(`/api/platforms/${providerId}/keys${query}`)
+    return client.get<KeyWithHealth[]>(`/api/platforms/${providerId}/keys${query}`, {
+      ...(includeHealth ? {} : { cacheTtl: CONFIG_CACHE_TTL }),
+      ...requestOptions,
+    })
   },
 
   /**
@@ -308,7 +334,7 @@ export const providerApi = {
     providerId: number,
     data: Partial<Omit<ApiKey, 'id' | 'platform_id'>>,
   ): Promise<ApiKey> {
-    return http.post<ApiKey>(`/api/platforms/${providerId}/keys`, data)
+    return client.post<ApiKey>(`/api/platforms/${providerId}/keys`, data)
   },
 
   /**
@@ -321,7 +347,7 @@ export const providerApi = {
     keyId: number,
     data: Partial<Omit<ApiKey, 'id' | 'platform_id'>>,
   ): Promise<ApiKey> {
-    return http.put<ApiKey>(`/api/keys/${keyId}`, data)
+    return client.put<ApiKey>(`/api/keys/${keyId}`, data)
   },
 
   /**
@@ -330,6 +356,10 @@ export const providerApi = {
    * @returns {Promise<{ message: string }>} 删除操作的确认信息。
    */
   deleteProviderKey(keyId: number): Promise<{ message: string }> {
-    return http.delete<{ message: string }>(`/api/keys/${keyId}`)
+    return client.delete<{ message: string }>(`/api/keys/${keyId}`)
   },
-}
+})
+
+export type ProviderApi = ReturnType<typeof createProviderApi>
+
+export const providerApi = createProviderApi()
@@ -1,21 +1,46 @@
-import { http } from '@/services/http'
+import { http, type HttpClient, type RequestOptions } from '@/services/http'
 import type {
   RequestStat,
   ListRequestStatsOptions,
   RealtimeStats,
   DashboardResponse,
+  DashboardQueryOptions,
   ModelStatusResponse,
   GetModelStatusOptions,
+  RequestStatsFilterOptions,
+  CollectRequestStatsOptions,
+  CollectRequestStatsResult,
 } from '@/types/stats'
+import { isRequestCanceled } from '@/utils/errorHandler'
 
-// 获取实时数据
-export async function getRealtimeStats(): Promise<RealtimeStats> {
-  return http.get<RealtimeStats>('/api/stats/realtime')
+// 获取实时数据，可传入指定服务器的客户端
+export async function getRealtimeStats(client: HttpClient = http): Promise<RealtimeStats> {
+  return client.get<RealtimeStats>('/api/stats/realtime')
 }
 
 // 获取仪表盘数据（统一接口）
-export async function getDashboard(range: string = '24h'): Promise<DashboardResponse> {
-  return http.get<DashboardResponse>(`/api/stats/dashboard?range=${range}`)
+// 支持传入内置范围字符串，或包含自定义起止时间的查询参数，可传入指定服务器的客户端
+export async function getDashboard(
+  query: string | DashboardQueryOptions = '24h',
+  client: HttpClient = http,
+): Promise<DashboardResponse> {
+  const options: DashboardQueryOptions = typeof query === 'string' ? { range: query } : query
+  const params = new URLSearchParams()
+
+  if (options.range) {
+    params.append('range', options.range)
+  }
+  if (options.start_time) {
+    params.append('start_time', options.start_time)
+  }
+  if (options.end_time) {
+    params.append('end_time', options.end_time)
+  }
+  if (options.granularity) {
+    params.append('granularity', options.granularity)
+  }
+
+  return client.get<DashboardResponse>(`/api/stats/dashboard?${params.toString()}`)
 }
 
 // 获取模型状态监控数据
@@ -36,8 +61,11 @@ export async function getModelStatus(
   return http.get<ModelStatusResponse>(url)
 }
 
-// 获取请求状态列表
-export async function listRequestStats(options: ListRequestStatsOptions): Promise<{
+// 获取请求状态列表，可通过请求配置传入取消信号
+export async function listRequestStats(
+  options: ListRequestStatsOptions,
+  requestOptions?: RequestOptions,
+): Promise<{
   data: RequestStat[]
   count: number
 }> {
@@ -82,5 +110,66 @@ export async function listRequestStats(options: ListRequestStatsOptions): Promis
   return await http.get<{
     data: RequestStat[]
     count: number
-  }>(url)
+  }>(url, requestOptions)
+}
+
+// 按筛选条件逐页拉取请求日志，直到取完、达到行数上限或被取消
+export async function collectRequestStats(
+  filter: RequestStatsFilterOptions,
+  options: CollectRequestStatsOptions = {},
+): Promise<CollectRequestStatsResult> {
+  const pageSize = options.page_size ?? 100
+  const maxRows = options.max_rows ?? Number.POSITIVE_INFINITY
+
+  // 未指定结束时间时固定为开始收集的时刻，避免翻页期间新日志写入导致分页偏移
+  const stableFilter: RequestStatsFilterOptions = {
+    ...filter,
+    end_time: filter.end_time ?? new Date().toISOString(),
+  }
+
+  const items: RequestStat[] = []
+  const seenIds = new Set<number>()
+  let total = 0
+  let page = 1
+
+  while (items.length < maxRows) {
+    if (options.signal?.aborted) {
+      return { items, total, truncated: false, aborted: true }
+    }
+
+    let response: Awaited<ReturnType<typeof listRequestStats>>
+    try {
+      response = await listRequestStats(
+        { ...stableFilter, page, page_size: pageSize },
+        { signal: options.signal },
+      )
+    } catch (error) {
+      if (isRequestCanceled(error)) {
+        return { items, total, truncated: false, aborted: true }
+      }
+      throw error
+    }
+    total = response.count
+
+    for (const item of response.data) {
+      if (seenIds.has(item.id)) continue
+      seenIds.add(item.id)
+      items.push(item)
+      if (items.length >= maxRows) break
+    }
+
+    options.onProgress?.({ fetched: items.length, total })
+
+    if (response.data.length < pageSize || page * pageSize >= total) {
+      break
+    }
+    page += 1
+  }
+
+  return {
+    items,
+    total,
+    truncated: items.length >= maxRows && total > items.length,
+    aborted: false,
+  }
 }
@@ -0,0 +1,110 @@
+import { computed, ref, watch } from 'vue'
+import { defineStore } from 'pinia'
+import { useApiServerStore } from '@/stores/apiServerStore'
+import type { AlertMetric, AlertRule, AlertSettings } from '@/types/alert'
+import { generateUUID } from '@/utils/uuid'
+
+const STORAGE_KEY = 'pinai-alert-settings'
+
+// 各指标新建规则时的默认阈值
+const DEFAULT_THRESHOLDS: Record<AlertMetric, number> = {
+  rpm: 300,
+  success_rate: 95,
+  daily_tokens: 10_000_000,
+  health_issues: 0,
+}
+
+function createDefaultSettings(): AlertSettings {
+  return { rules: [], interval_seconds: 60, browser_notification: false }
+}
+
+export const useAlertStore = defineStore('alerts', () => {
+  const apiServerStore = useApiServerStore()
+
+  // 按 API 服务器 ID 分组存储的告警设置
+  const settingsByServer = ref<Record<string, AlertSettings>>({})
+
+  /**
+   * 当前服务器的告警设置，尚未配置时为 null
+   */
+  const settings = computed<AlertSettings | null>(() => {
+    const serverId = apiServerStore.activeServerId
+    if (!serverId) return null
+    return settingsByServer.value[serverId] ?? null
+  })
+
+  const enabledRules = computed(() => settings.value?.rules.filter((rule) => rule.enabled) ?? [])
+
+  /**
+   * 从 localStorage 加载告警设置
+   */
+  function loadSettings() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      settingsByServer.value = stored ? JSON.parse(stored) : {}
+    } catch (error) {
+      console.error('从 localStorage 加载或解析告警设置失败：', error)
+      settingsByServer.value = {}
+    }
+  }
+
+  /**
+   * 保存告警设置到 localStorage
+   */
+  function saveSettings() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settingsByServer.value))
+    } catch (error) {
+      console.error('保存告警设置到 localStorage 失败：', error)
+    }
+  }
+
+  /**
+   * 获取当前服务器的设置用于编辑，不存在时创建
+   */
+  function ensureSettings(): AlertSettings | null {
+    const serverId = apiServerStore.activeServerId
+    if (!serverId) return null
+    if (!settingsByServer.value[serverId]) {
+      settingsByServer.value[serverId] = createDefaultSettings()
+    }
+    return settingsByServer.value[serverId] ?? null
+  }
+
+  function addRule(metric: AlertMetric) {
+    const current = ensureSettings()
+    if (!current) return
+    const rule: AlertRule = {
+      id: generateUUID(),
+      metric,
+      threshold: DEFAULT_THRESHOLDS[metric],
+      enabled: true,
+    }
+    if (metric === 'success_rate') rule.range = '24h'
+    current.rules.push(rule)
+  }
+
+  function removeRule(id: string) {
+    const current = ensureSettings()
+    if (!current) return
+    current.rules = current.rules.filter((rule) => rule.id !== id)
+  }
+
+  function updateOptions(options: Partial<Omit<AlertSettings, 'rules'>>) {
+    const current = ensureSettings()
+    if (!current) return
+    Object.assign(current, options)
+  }
+
+  loadSettings()
+
+  watch(settingsByServer, saveSettings, { deep: true })
+
+  return {
+    settings,
+    enabledRules,
+    addRule,
+    removeRule,
+    updateOptions,
+  }
+})
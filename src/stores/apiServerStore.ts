@@ -1,6 +1,8 @@
 import { defineStore } from 'pinia'
 import { ref, computed, watch } from 'vue'
 import { generateUUID } from '@/utils/uuid'
+import { clearServerHealthHistory } from '@/services/healthHistoryDb'
+import { http } from '@/services/http'
 import type { ApiServer } from '@/types/api'
 
 const LOCAL_STORAGE_SERVERS_KEY = 'pinai_api_servers'
@@ -63,7 +65,7 @@ export const useApiServerStore = defineStore('apiServer', () => {
 
     // 合并时避免把必填字段覆盖成 undefined（TS2322 的根因）。
     // token 允许显式清空：仅当 serverData 真的包含 token 字段时才覆盖。
-    servers.value[serverIndex] = {
+    const updated: ApiServer = {
       id: existing.id,
       name: serverData.name ?? existing.name,
       url: serverData.url ?? existing.url,
@@ -71,6 +73,12 @@ export const useApiServerStore = defineStore('apiServer', () => {
         ? serverData.token
         : existing.token,
     }
+    servers.value[serverIndex] = updated
+
+    // 响应缓存按服务器 ID 索引，地址或令牌变化后旧缓存不再可信
+    if (updated.url !== existing.url || updated.token !== existing.token) {
+      http.invalidateCache(existing)
+    }
   }
 
   /**
@@ -81,7 +89,13 @@ export const useApiServerStore = defineStore('apiServer', () => {
     const indexToDelete = servers.value.findIndex((s) => s.id === id)
     if (indexToDelete === -1) return
 
-    servers.value.splice(indexToDelete, 1)
+    const [deleted] = servers.value.splice(indexToDelete, 1)
+    if (deleted) http.invalidateCache(deleted)
+
+    // 清除该服务器在本地记录的健康历史
+    clearServerHealthHistory(id).catch((error) => {
+      console.error('清除服务器健康历史失败：', error)
+    })
 
     // 如果删除的是当前激活的服务器，则将激活 ID 置空
     if (activeServerId.value === id) {
@@ -0,0 +1,208 @@
+import { computed, ref, watch } from 'vue'
+import { defineStore } from 'pinia'
+import { useApiServerStore } from '@/stores/apiServerStore'
+import type { LogFilterPreset, LogFilterPresetExportFile } from '@/types/logPreset'
+import { generateUUID } from '@/utils/uuid'
+
+const STORAGE_KEY = 'pinai-log-filter-presets'
+
+/**
+ * 判断是否为字符串键值对（导入校验用）
+ */
+function isStringRecord(value: unknown): value is Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  return Object.values(value).every((item) => typeof item === 'string')
+}
+
+function isSameQuery(a: Record<string, string>, b: Record<string, string>): boolean {
+  const aKeys = Object.keys(a)
+  return aKeys.length === Object.keys(b).length && aKeys.every((key) => a[key] === b[key])
+}
+
+export const useLogFilterPresetStore = defineStore('logFilterPresets', () => {
+  const apiServerStore = useApiServerStore()
+
+  // 按 API 服务器 ID 分组存储的预设
+  const presetsByServer = ref<Record<string, LogFilterPreset[]>>({})
+
+  // 当前服务器的预设
+  const presets = computed<LogFilterPreset[]>(() => {
+    const serverId = apiServerStore.activeServerId
+    if (!serverId) return []
+    return presetsByServer.value[serverId] ?? []
+  })
+
+  // 固定为快捷筛选的预设
+  const pinnedPresets = computed(() => presets.value.filter((preset) => preset.pinned))
+
+  /**
+   * 从 localStorage 加载预设
+   */
+  function loadPresets() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      presetsByServer.value = stored ? JSON.parse(stored) : {}
+    } catch (error) {
+      console.error('从 localStorage 加载或解析日志筛选预设失败：', error)
+      presetsByServer.value = {}
+    }
+  }
+
+  /**
+   * 保存预设到 localStorage
+   */
+  function savePresets() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(presetsByServer.value))
+    } catch (error) {
+      console.error('保存日志筛选预设到 localStorage 失败：', error)
+    }
+  }
+
+  // 获取当前服务器的预设列表（不存在时创建）
+  function getServerPresets(): LogFilterPreset[] | null {
+    const serverId = apiServerStore.activeServerId
+    if (!serverId) return null
+    if (!presetsByServer.value[serverId]) {
+      presetsByServer.value[serverId] = []
+    }
+    return presetsByServer.value[serverId]
+  }
+
+  /**
+   * 将筛选条件保存为预设；同名预设会被覆盖
+   * @param name - 预设名称
+   * @param query - 序列化后的筛选条件
+   * @returns 保存后的预设，未选择服务器时返回 null
+   */
+  function savePreset(name: string, query: Record<string, string>): LogFilterPreset | null {
+    const list = getServerPresets()
+    if (!list) return null
+
+    const existing = list.find((preset) => preset.name === name)
+    if (existing) {
+      existing.query = { ...query }
+      return existing
+    }
+
+    const preset: LogFilterPreset = {
+      id: generateUUID(),
+      name,
+      pinned: false,
+      query: { ...query },
+      created_at: new Date().toISOString(),
+    }
+    list.push(preset)
+    return preset
+  }
+
+  /**
+   * 删除预设
+   * @param id - 预设 ID
+   */
+  function removePreset(id: string) {
+    const list = getServerPresets()
+    if (!list) return
+    const index = list.findIndex((preset) => preset.id === id)
+    if (index !== -1) list.splice(index, 1)
+  }
+
+  /**
+   * 切换预设的固定状态
+   * @param id - 预设 ID
+   */
+  function togglePinned(id: string) {
+    const preset = presets.value.find((item) => item.id === id)
+    if (preset) preset.pinned = !preset.pinned
+  }
+
+  /**
+   * 导出当前服务器的全部预设
+   */
+  function exportPresets(): LogFilterPresetExportFile {
+    return {
+      type: 'pinai-log-filter-presets',
+      version: 1,
+      exported_at: new Date().toISOString(),
+      presets: presets.value.map(({ name, pinned, query, created_at }) => ({
+        name,
+        pinned,
+        query: { ...query },
+        created_at,
+      })),
+    }
+  }
+
+  /**
+   * 导入预设到当前服务器；名称与条件完全相同的预设会被跳过，名称冲突时覆盖条件
+   * @param data - 解析后的导出文件内容
+   * @returns 新增与更新的数量
+   * @throws 文件格式不正确时抛出错误
+   */
+  function importPresets(data: unknown): { added: number; updated: number } {
+    const file = data as Partial<LogFilterPresetExportFile> | null
+    if (!file || file.type !== 'pinai-log-filter-presets' || !Array.isArray(file.presets)) {
+      throw new Error('文件格式不正确，不是日志筛选预设导出文件')
+    }
+    if (file.version !== 1) {
+      throw new Error(`不支持的预设文件版本：${String(file.version)}`)
+    }
+
+    const list = getServerPresets()
+    if (!list) {
+      throw new Error('请先选择 API 服务器')
+    }
+
+    let added = 0
+    let updated = 0
+    for (const item of file.presets) {
+      if (
+        !item ||
+        typeof item.name !== 'string' ||
+        !item.name.trim() ||
+        !isStringRecord(item.query)
+      ) {
+        continue
+      }
+
+      const name = item.name.trim()
+      const existing = list.find((preset) => preset.name === name)
+      if (existing) {
+        if (!isSameQuery(existing.query, item.query)) {
+          existing.query = { ...item.query }
+          updated++
+        }
+        continue
+      }
+
+      list.push({
+        id: generateUUID(),
+        name,
+        pinned: !!item.pinned,
+        query: { ...item.query },
+        created_at:
+          typeof item.created_at === 'string' ? item.created_at : new Date().toISOString(),
+      })
+      added++
+    }
+
+    return { added, updated }
+  }
+
+  // 初始加载
+  loadPresets()
+
+  // 监听变化并保存
+  watch(presetsByServer, savePresets, { deep: true })
+
+  return {
+    presets,
+    pinnedPresets,
+    loadPresets,
+    savePreset,
+    removePreset,
+    togglePinned,
+    exportPresets,
+    importPresets,
+  }
+})
@@ -0,0 +1,93 @@
+import { ref, watch } from 'vue'
+import { defineStore } from 'pinia'
+import type {
+  ModelStatusThresholdRule,
+  ModelStatusThresholds,
+  ModelStatusThresholdSettings,
+} from '@/types/modelStatus'
+import {
+  DEFAULT_MODEL_STATUS_THRESHOLDS,
+  findThresholdRule,
+  normalizeThresholds,
+} from '@/utils/modelStatus'
+import { generateUUID } from '@/utils/uuid'
+
+const STORAGE_KEY = 'pinai-model-status-thresholds'
+
+export const useModelStatusThresholdStore = defineStore('modelStatusThreshold', () => {
+  const global = ref<ModelStatusThresholds>({ ...DEFAULT_MODEL_STATUS_THRESHOLDS })
+  const rules = ref<ModelStatusThresholdRule[]>([])
+
+  // 加载阈值设置
+  const loadSettings = () => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (stored) {
+        const settings = JSON.parse(stored) as Partial<ModelStatusThresholdSettings>
+        global.value = normalizeThresholds(settings.global)
+        rules.value = Array.isArray(settings.rules)
+          ? settings.rules.map((rule) => ({ ...rule, ...normalizeThresholds(rule, global.value) }))
+          : []
+      }
+    } catch (error) {
+      console.error('从 localStorage 加载或解析模型状态阈值失败：', error)
+    }
+  }
+
+  // 保存阈值设置
+  const saveSettings = () => {
+    try {
+      // 保存规整后的值，清空的输入不会以 null 持久化
+      const globalThresholds = normalizeThresholds(global.value)
+      const settings: ModelStatusThresholdSettings = {
+        global: globalThresholds,
+        rules: rules.value.map((rule) => ({
+          ...rule,
+          ...normalizeThresholds(rule, globalThresholds),
+        })),
+      }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+    } catch (error) {
+      console.error('保存模型状态阈值到 localStorage 失败：', error)
+    }
+  }
+
+  // 添加规则，默认沿用当前全局阈值
+  const addRule = () => {
+    rules.value.push({ id: generateUUID(), pattern: '', ...global.value })
+  }
+
+  // 删除规则
+  const removeRule = (id: string) => {
+    rules.value = rules.value.filter((rule) => rule.id !== id)
+  }
+
+  // 恢复默认全局阈值
+  const resetGlobal = () => {
+    global.value = { ...DEFAULT_MODEL_STATUS_THRESHOLDS }
+  }
+
+  // 获取模型适用的阈值，未命中规则时使用全局阈值
+  // 输入框清空时值为 null，这里回退为全局或默认阈值，避免按 0 判定导致全部显示为正常
+  const getThresholds = (modelName: string): ModelStatusThresholds => {
+    const globalThresholds = normalizeThresholds(global.value)
+    const rule = findThresholdRule(rules.value, modelName)
+    return rule ? normalizeThresholds(rule, globalThresholds) : globalThresholds
+  }
+
+  // 初始加载
+  loadSettings()
+
+  // 监听变化并保存
+  watch([global, rules], saveSettings, { deep: true })
+
+  return {
+    global,
+    rules,
+    loadSettings,
+    addRule,
+    removeRule,
+    resetGlobal,
+    getThresholds,
+  }
+})
@@ -0,0 +1,105 @@
+import { computed, ref, watch } from 'vue'
+import { defineStore } from 'pinia'
+import type { NotificationInput, NotificationRecord } from '@/types/notification'
+import { generateUUID } from '@/utils/uuid'
+
+const STORAGE_KEY = 'pinai-notifications'
+
+// 最多保留的通知条数，超出时丢弃最旧的记录
+const MAX_NOTIFICATIONS = 200
+
+// 在该时间窗口内重复出现的同级别、同标题通知合并为一条
+const MERGE_WINDOW_MS = 3000
+
+export const useNotificationStore = defineStore('notifications', () => {
+  // 按时间倒序排列的通知
+  const notifications = ref<NotificationRecord[]>([])
+
+  const unreadCount = computed(() => notifications.value.filter((item) => !item.read).length)
+
+  /**
+   * 从 localStorage 加载通知
+   */
+  function loadNotifications() {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      notifications.value = stored ? JSON.parse(stored) : []
+    } catch (error) {
+      console.error('从 localStorage 加载或解析通知记录失败：', error)
+      notifications.value = []
+    }
+  }
+
+  /**
+   * 保存通知到 localStorage
+   */
+  function saveNotifications() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(notifications.value))
+    } catch (error) {
+      console.error('保存通知记录到 localStorage 失败：', error)
+    }
+  }
+
+  /**
+   * 新增一条通知；与最近一条通知重复时合并，并补充详情
+   * @param input 通知内容
+   * @returns 新增或合并后的通知
+   */
+  function addNotification(input: NotificationInput): NotificationRecord {
+    const latest = notifications.value[0]
+    if (
+      latest &&
+      latest.level === input.level &&
+      latest.title === input.title &&
+      Date.now() - new Date(latest.created_at).getTime() < MERGE_WINDOW_MS
+    ) {
+      latest.detail = input.detail ?? latest.detail
+      latest.content = input.content ?? latest.content
+      latest.read = false
+      return latest
+    }
+
+    const record: NotificationRecord = {
+      ...input,
+      id: generateUUID(),
+      created_at: new Date().toISOString(),
+      read: false,
+    }
+    notifications.value = [record, ...notifications.value].slice(0, MAX_NOTIFICATIONS)
+    return record
+  }
+
+  function markAsRead(id: string) {
+    const record = notifications.value.find((item) => item.id === id)
+    if (record) record.read = true
+  }
+
+  function markAllAsRead() {
+    notifications.value.forEach((item) => {
+      item.read = true
+    })
+  }
+
+  function removeNotification(id: string) {
+    notifications.value = notifications.value.filter((item) => item.id !== id)
+  }
+
+  function clearNotifications() {
+    notifications.value = []
+  }
+
+  loadNotifications()
+
+  watch(notifications, saveNotifications, { deep: true })
+
+  return {
+    notifications,
+    unreadCount,
+    addNotification,
+    markAsRead,
+    markAllAsRead,
+    removeNotification,
+    clearNotifications,
+  }
+})
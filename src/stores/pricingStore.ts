@@ -0,0 +1,75 @@
+import { ref, watch } from 'vue'
+import { defineStore } from 'pinia'
+import type { CostUsage, ModelPriceRule, PricingSettings } from '@/types/pricing'
+import { estimateCost, formatCost } from '@/utils/pricing'
+import { generateUUID } from '@/utils/uuid'
+
+const STORAGE_KEY = 'pinai-model-pricing'
+
+export const usePricingStore = defineStore('pricing', () => {
+  const currency = ref('USD')
+  const rules = ref<ModelPriceRule[]>([])
+
+  // 加载价格设置
+  const loadSettings = () => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (stored) {
+        const settings = JSON.parse(stored) as Partial<PricingSettings>
+        currency.value = settings.currency || 'USD'
+        rules.value = Array.isArray(settings.rules) ? settings.rules : []
+      }
+    } catch (error) {
+      console.error('从 localStorage 加载或解析价格设置失败：', error)
+    }
+  }
+
+  // 保存价格设置
+  const saveSettings = () => {
+    try {
+      const settings: PricingSettings = { currency: currency.value, rules: rules.value }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+    } catch (error) {
+      console.error('保存价格设置到 localStorage 失败：', error)
+    }
+  }
+
+  // 添加规则
+  const addRule = () => {
+    rules.value.push({
+      id: generateUUID(),
+      pattern: '',
+      platform_id: null,
+      input_price: 0,
+      output_price: 0,
+    })
+  }
+
+  // 删除规则
+  const removeRule = (id: string) => {
+    rules.value = rules.value.filter((rule) => rule.id !== id)
+  }
+
+  // 估算花费，未配置价格时返回 null
+  const estimate = (usage: CostUsage) =>
+    estimateCost({ currency: currency.value, rules: rules.value }, usage)
+
+  // 按当前货币格式化金额
+  const format = (value: number | null | undefined) => formatCost(value, currency.value)
+
+  // 初始加载
+  loadSettings()
+
+  // 监听变化并保存
+  watch([currency, rules], saveSettings, { deep: true })
+
+  return {
+    currency,
+    rules,
+    loadSettings,
+    addRule,
+    removeRule,
+    estimate,
+    format,
+  }
+})
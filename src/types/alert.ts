@@ -0,0 +1,54 @@
+import type { StatsRange } from '@/types/stats'
+
+/**
+ * 用量告警相关类型定义
+ */
+
+/**
+ * 告警指标
+ * - rpm: 实时 RPM 高于阈值
+ * - success_rate: 指定统计范围内成功率低于阈值（百分比）
+ * - daily_tokens: 最近 24 小时 Token 用量高于预算
+ * - health_issues: 健康问题数量高于阈值
+ */
+export type AlertMetric = 'rpm' | 'success_rate' | 'daily_tokens' | 'health_issues'
+
+/**
+ * 告警规则
+ * @property {string} id - 规则 ID
+ * @property {AlertMetric} metric - 告警指标
+ * @property {number} threshold - 阈值，成功率为百分比（0-100）
+ * @property {StatsRange} [range] - 成功率的统计范围，默认 24h
+ * @property {boolean} enabled - 是否启用
+ */
+export interface AlertRule {
+  id: string
+  metric: AlertMetric
+  threshold: number
+  range?: StatsRange
+  enabled: boolean
+}
+
+/**
+ * 单个 API 服务器的告警设置
+ * @property {AlertRule[]} rules - 告警规则
+ * @property {number} interval_seconds - 轮询间隔（秒）
+ * @property {boolean} browser_notification - 是否同时发送浏览器通知
+ */
+export interface AlertSettings {
+  rules: AlertRule[]
+  interval_seconds: number
+  browser_notification: boolean
+}
+
+/**
+ * 规则的最近一次评估结果
+ * @property {number | null} value - 指标当前值，获取失败时为 null
+ * @property {boolean} triggered - 是否处于告警状态
+ * @property {string} checked_at - 评估时间（ISO 8601）
+ */
+export interface AlertRuleState {
+  value: number | null
+  triggered: boolean
+  checked_at: string
+}
@@ -5,6 +5,8 @@ export interface ApiError extends Error {
   isTimeout?: boolean
   isAuthError?: boolean
   isServerNotSelected?: boolean
+  isCanceled?: boolean
+  retryAfter?: number // Retry-After 响应头换算的等待时间（毫秒）
 }
 
 /**
@@ -0,0 +1,140 @@
+/**
+ * 网关配置备份相关的数据结构
+ */
+import type { ApiKey, Model, Platform, RateLimitConfig } from './provider'
+
+/**
+ * 密钥的导出方式
+ * - plain: 明文导出
+ * - redacted: 不导出密钥值，仅保留指纹用于匹配服务器上已有的密钥
+ * - encrypted: 使用口令加密密钥值
+ */
+export type ConfigBackupKeyMode = 'plain' | 'redacted' | 'encrypted'
+
+/**
+ * 备份中的端点
+ */
+export interface ConfigBackupEndpoint {
+  endpoint_type: string
+  endpoint_variant: string
+  path: string
+  custom_headers?: Record<string, string>
+  is_default: boolean
+}
+
+/**
+ * 备份中的密钥
+ * @property {string} ref - 备份内引用 ID，供模型关联使用
+ * @property {string} [fingerprint] - 密钥值的 SHA-256 指纹，脱敏或加密导出时用于与服务器上的密钥匹配
+ * @property {string} [value] - 密钥值，明文导出或解密后存在
+ */
+export interface ConfigBackupApiKey {
+  ref: string
+  fingerprint?: string
+  value?: string
+}
+
+/**
+ * 备份中的模型
+ * @property {string[]} api_keys - 关联密钥的 ref 列表
+ */
+export interface ConfigBackupModel {
+  name: string
+  alias: string
+  api_keys: string[]
+}
+
+/**
+ * 备份中的平台
+ */
+export interface ConfigBackupPlatform {
+  name: string
+  base_url: string
+  rate_limit: RateLimitConfig
+  endpoints: ConfigBackupEndpoint[]
+  api_keys: ConfigBackupApiKey[]
+  models: ConfigBackupModel[]
+}
+
+/**
+ * 加密后的密钥值（AES-GCM，密钥由口令经 PBKDF2-SHA256 派生）
+ * @property {string} salt - Base64 编码的盐
+ * @property {string} iv - Base64 编码的初始向量
+ * @property {string} ciphertext - Base64 编码的密文，明文为 ref 到密钥值的 JSON 映射
+ */
+export interface ConfigBackupSecrets {
+  algorithm: 'AES-GCM'
+  kdf: 'PBKDF2-SHA256'
+  iterations: number
+  salt: string
+  iv: string
+  ciphertext: string
+}
+
+/**
+ * 配置备份文件格式
+ */
+export interface ConfigBackupFile {
+  type: 'pinai-config-backup'
+  version: 1
+  exported_at: string
+  key_mode: ConfigBackupKeyMode
+  platforms: ConfigBackupPlatform[]
+  secrets?: ConfigBackupSecrets
+}
+
+/**
+ * 导入时单个平台的变更计划
+ * @property {number | null} existingId - 服务器上同名平台的 ID，不存在时为 null
+ * @property {string[]} platformChanges - 平台基本信息中发生变化的字段
+ * @property {number} skippedKeys - 服务器上不存在且没有密钥值（已脱敏）而无法创建的密钥数
+ * @property {string[]} skippedModels - 没有可用关联密钥而无法创建的模型
+ * @property modelsToUpdate - 待更新的模型，liveKeyIds 为服务器上已关联的密钥 ID，更新时保留
+ */
+export interface ConfigPlatformDiff {
+  name: string
+  action: 'create' | 'update' | 'unchanged'
+  existingId: number | null
+  platform: ConfigBackupPlatform
+  platformChanges: string[]
+  endpointsToCreate: ConfigBackupEndpoint[]
+  endpointsToUpdate: Array<ConfigBackupEndpoint & { id: number }>
+  keysToCreate: ConfigBackupApiKey[]
+  skippedKeys: number
+  modelsToCreate: ConfigBackupModel[]
+  modelsToUpdate: Array<ConfigBackupModel & { id: number; liveKeyIds: number[] }>
+  skippedModels: string[]
+  // 备份中密钥 ref 到服务器上已有密钥 ID 的映射，应用时用于还原模型关联
+  existingKeyIds: Record<string, number>
+}
+
+/**
+ * 写入单项资源的结果
+ * @property {string} name - 资源名称（密钥为脱敏后的值）
+ */
+export interface ConfigResourceResult {
+  resource: 'platform' | 'endpoint' | 'api_key' | 'model'
+  action: 'create' | 'update'
+  name: string
+  status: 'success' | 'failed' | 'skipped'
+  error?: string
+}
+
+/**
+ * 单个平台的导入结果
+ */
+export interface ConfigImportResult {
+  name: string
+  status: 'success' | 'failed' | 'unchanged'
+  summary: string
+  error?: string
+}
+
+/**
+ * 服务器上单个平台的完整配置，用于导出与导入比对
+ */
+export interface ConfigLivePlatform {
+  platform: Platform
+  keys: ApiKey[]
+  models: Model[]
+}
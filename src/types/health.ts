@@ -41,6 +41,27 @@ export interface HealthSummary {
   model: HealthStatusCount
 }
 
+/**
+ * 健康状态列表排序字段
+ */
+export type HealthListSortField = 'last_check_at' | 'error_count'
+
+export type HealthListSortOrder = 'asc' | 'desc'
+
+/**
+ * 健康状态列表通用筛选与排序参数
+ * @property {HealthStatus} [status] - 健康状态
+ * @property {string} [search] - 名称关键字
+ * @property {HealthListSortField} [sort_by] - 排序字段
+ * @property {HealthListSortOrder} [sort_order] - 排序方向
+ */
+export interface HealthListFilterParams {
+  status?: HealthStatus
+  search?: string
+  sort_by?: HealthListSortField
+  sort_order?: HealthListSortOrder
+}
+
 /**
  * 平台健康状态项
  */
@@ -59,7 +80,7 @@ export interface PlatformHealthItem {
 /**
  * 平台健康状态列表查询参数
  */
-export interface PlatformHealthListParams {
+export interface PlatformHealthListParams extends HealthListFilterParams {
   page?: number
   page_size?: number
 }
@@ -91,10 +112,12 @@ export interface ApiKeyHealthItem {
 
 /**
  * API 密钥健康状态列表查询参数
+ * @property {number} [platform_id] - 所属平台 ID
  */
-export interface ApiKeyHealthListParams {
+export interface ApiKeyHealthListParams extends HealthListFilterParams {
   page?: number
   page_size?: number
+  platform_id?: number
 }
 
 /**
@@ -125,10 +148,12 @@ export interface ModelHealthItem {
 
 /**
  * 模型健康状态列表查询参数
+ * @property {number} [platform_id] - 所属平台 ID
  */
-export interface ModelHealthListParams {
+export interface ModelHealthListParams extends HealthListFilterParams {
   page?: number
   page_size?: number
+  platform_id?: number
 }
 
 /**
@@ -176,6 +201,7 @@ export interface HealthIssueItem {
   resource_type: HealthResourceType
   resource_id: number
   resource_name: string
+  platform_id?: number
   platform_name?: string
   status: HealthStatus
   last_check_at: string
@@ -194,3 +220,64 @@ export interface HealthIssueItem {
 export interface HealthIssuesResponse {
   items: HealthIssueItem[]
 }
+
+/**
+ * 健康资源引用（查看历史、批量操作时使用）
+ */
+export interface HealthResourceRef {
+  resource_type: HealthResourceType
+  resource_id: number
+  resource_name: string
+}
+
+/**
+ * 健康历史快照输入（每次拉取健康列表时记录）
+ */
+export interface HealthSnapshotInput extends HealthResourceRef {
+  status: HealthStatus
+  retry_count: number
+  success_count: number
+  error_count: number
+  last_error: string
+  last_check_at: string
+}
+
+/**
+ * 健康历史片段
+ * 连续多次拉取到相同状态与计数时合并为一个片段，只更新 last_seen_at
+ * @property {number} [id] - IndexedDB 自增主键
+ * @property {string} server_id - API 服务器 ID
+ * @property {number} first_seen_at - 首次记录时间戳
+ * @property {number} last_seen_at - 最后一次记录时间戳
+ * @property {number} observations - 记录次数
+ */
+export interface HealthHistorySegment extends HealthSnapshotInput {
+  id?: number
+  server_id: string
+  first_seen_at: number
+  last_seen_at: number
+  observations: number
+}
+
+export type HealthBulkAction = 'enable' | 'disable'
+
+/**
+ * 批量操作中单个资源的结果
+ */
+export interface HealthBulkItemResult {
+  target: HealthResourceRef
+  status: 'pending' | 'success' | 'error'
+  error?: string
+}
+
+/**
+ * 批量启用 / 禁用的进度与结果
+ */
+export interface HealthBulkOperationState {
+  visible: boolean
+  running: boolean
+  action: HealthBulkAction
+  total: number
+  completed: number
+  results: HealthBulkItemResult[]
+}
@@ -0,0 +1,29 @@
+/**
+ * 使用日志筛选预设相关的数据结构
+ */
+
+/**
+ * 筛选预设
+ * @property {string} id - 预设 ID
+ * @property {string} name - 预设名称
+ * @property {boolean} pinned - 是否固定为快捷筛选
+ * @property {Record<string, string>} query - 序列化后的筛选条件（与日志页 URL 查询参数一致，不含分页）
+ * @property {string} created_at - 创建时间（ISO 字符串）
+ */
+export interface LogFilterPreset {
+  id: string
+  name: string
+  pinned: boolean
+  query: Record<string, string>
+  created_at: string
+}
+
+/**
+ * 筛选预设导出文件格式
+ */
+export interface LogFilterPresetExportFile {
+  type: 'pinai-log-filter-presets'
+  version: 1
+  exported_at: string
+  presets: Array<Omit<LogFilterPreset, 'id'>>
+}
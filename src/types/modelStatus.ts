@@ -0,0 +1,35 @@
+/**
+ * 定义模型状态监控中成功率分级阈值的数据结构
+ */
+
+/**
+ * 成功率分级阈值
+ * @property {number} normal_rate - 成功率不低于该值（百分比）时为正常
+ * @property {number} warning_rate - 成功率不低于该值（百分比）时为警告，低于则为异常
+ * @property {number} min_requests - 请求数低于该值时视为无数据，避免少量请求导致误判
+ */
+export interface ModelStatusThresholds {
+  normal_rate: number
+  warning_rate: number
+  min_requests: number
+}
+
+/**
+ * 按模型名称匹配的阈值规则
+ * @property {string} id - 规则 ID
+ * @property {string} pattern - 模型名称匹配模式，支持 * 与 ? 通配符，不区分大小写
+ */
+export interface ModelStatusThresholdRule extends ModelStatusThresholds {
+  id: string
+  pattern: string
+}
+
+/**
+ * 阈值设置
+ * @property {ModelStatusThresholds} global - 全局阈值
+ * @property {ModelStatusThresholdRule[]} rules - 模型规则，按顺序匹配第一条，未命中时使用全局阈值
+ */
+export interface ModelStatusThresholdSettings {
+  global: ModelStatusThresholds
+  rules: ModelStatusThresholdRule[]
+}
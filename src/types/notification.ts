@@ -0,0 +1,34 @@
+/**
+ * 通知中心相关类型定义
+ */
+
+export type NotificationLevel = 'info' | 'success' | 'warning' | 'error'
+
+/**
+ * 通知记录
+ * @property {string} id - 通知 ID
+ * @property {NotificationLevel} level - 通知级别
+ * @property {string} title - 标题
+ * @property {string} [content] - 正文
+ * @property {string} source - 来源，例如“用量告警”或页面标题
+ * @property {string} [route] - 来源页面路径，用于跳转回原页面
+ * @property {string} [detail] - 详情，例如批量操作中每一项的失败原因
+ * @property {string} created_at - 创建时间（ISO 8601）
+ * @property {boolean} read - 是否已读
+ */
+export interface NotificationRecord {
+  id: string
+  level: NotificationLevel
+  title: string
+  content?: string
+  source: string
+  route?: string
+  detail?: string
+  created_at: string
+  read: boolean
+}
+
+/**
+ * 新增通知时的参数
+ */
+export type NotificationInput = Omit<NotificationRecord, 'id' | 'created_at' | 'read'>
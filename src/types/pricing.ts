@@ -0,0 +1,42 @@
+/**
+ * 定义基于 Token 用量估算花费所需的数据结构
+ */
+
+/**
+ * 模型价格规则
+ * @property {string} id - 规则 ID
+ * @property {string} pattern - 模型名称匹配模式，支持 * 与 ? 通配符，不区分大小写
+ * @property {number | null} platform_id - 仅对指定平台生效，null 表示所有平台
+ * @property {string} [platform_name] - 平台名称快照，用于匹配仪表盘平台排行（按名称返回）
+ * @property {number} input_price - 每 1M 输入 Token 价格
+ * @property {number} output_price - 每 1M 输出 Token 价格
+ */
+export interface ModelPriceRule {
+  id: string
+  pattern: string
+  platform_id: number | null
+  platform_name?: string
+  input_price: number
+  output_price: number
+}
+
+/**
+ * 价格设置
+ * @property {string} currency - 货币代码，例如 USD、CNY
+ * @property {ModelPriceRule[]} rules - 价格规则，按顺序匹配
+ */
+export interface PricingSettings {
+  currency: string
+  rules: ModelPriceRule[]
+}
+
+/**
+ * 用于估算花费的用量信息
+ */
+export interface CostUsage {
+  modelName?: string | null
+  platformId?: number | null
+  platformName?: string | null
+  promptTokens?: number | null
+  completionTokens?: number | null
+}
@@ -0,0 +1,26 @@
+/**
+ * 跨服务器复制平台相关的数据结构
+ */
+import type { ConfigResourceResult } from './configBackup'
+
+/**
+ * 目标服务器已存在同名平台时的处理方式
+ * - skip: 跳过该平台
+ * - rename: 以新名称创建一个新平台
+ * - merge: 合并到已有平台，新增缺失的端点、密钥与模型并更新有差异的配置
+ */
+export type ProviderMigrationStrategy = 'skip' | 'rename' | 'merge'
+
+/**
+ * 单个平台的复制结果
+ * @property {string} sourceName - 源平台名称
+ * @property {string} targetName - 目标服务器上的平台名称（重命名时与源名称不同）
+ * @property {ConfigResourceResult[]} resources - 各项资源的写入结果
+ */
+export interface ProviderMigrationResult {
+  sourceName: string
+  targetName: string
+  status: 'success' | 'partial' | 'failed' | 'skipped'
+  message?: string
+  resources: ConfigResourceResult[]
+}
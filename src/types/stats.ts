@@ -72,6 +72,25 @@ export interface ListRequestStatsOptions {
   page_size: number
 }
 
+// 请求日志筛选条件（不含分页参数）
+export type RequestStatsFilterOptions = Omit<ListRequestStatsOptions, 'page' | 'page_size'>
+
+// 跨页收集请求日志的选项
+export interface CollectRequestStatsOptions {
+  page_size?: number // 每页拉取条数，默认 100
+  max_rows?: number // 最多收集的行数上限
+  signal?: AbortSignal // 用于取消收集
+  onProgress?: (progress: { fetched: number; total: number }) => void
+}
+
+// 跨页收集请求日志的结果
+export interface CollectRequestStatsResult {
+  items: RequestStat[]
+  total: number // 后端返回的匹配总数
+  truncated: boolean // 是否因达到行数上限而截断
+  aborted: boolean // 是否被取消
+}
+
 // 模型调用排行
 export interface ModelCallRankItem {
   model_name: string
@@ -150,6 +169,14 @@ export interface DashboardResponse {
 
 export type StatsRange = '24h' | '7d' | '30d'
 
+// 仪表盘查询参数：range 为后端内置范围；start_time / end_time 为自定义绝对范围
+export interface DashboardQueryOptions {
+  range?: string
+  start_time?: string // ISO 8601 格式时间字符串
+  end_time?: string // ISO 8601 格式时间字符串
+  granularity?: string // 趋势粒度，例如 5m / 1h / 1d
+}
+
 export interface ModelStatusPoint {
   timestamp: string
   request_count: number
@@ -0,0 +1,71 @@
+import type { AlertMetric, AlertRule } from '@/types/alert'
+import { formatTokens } from '@/utils/numberUtils'
+
+/**
+ * 告警规则的展示与判定工具函数
+ */
+
+export const ALERT_METRIC_OPTIONS: Array<{ label: string; value: AlertMetric }> = [
+  { label: 'RPM 高于', value: 'rpm' },
+  { label: '成功率低于 (%)', value: 'success_rate' },
+  { label: '24 小时 Token 超过', value: 'daily_tokens' },
+  { label: '健康问题数超过', value: 'health_issues' },
+]
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  rpm: 'RPM',
+  success_rate: '成功率',
+  daily_tokens: '24 小时 Token 用量',
+  health_issues: '健康问题数',
+}
+
+/**
+ * 判断指标值是否触发告警（成功率为低于阈值触发，其余为高于阈值触发）
+ * @param rule 告警规则
+ * @param value 指标当前值
+ */
+export function isAlertTriggered(rule: AlertRule, value: number): boolean {
+  return rule.metric === 'success_rate' ? value < rule.threshold : value > rule.threshold
+}
+
+/**
+ * 格式化指标值
+ * @param metric 告警指标
+ * @param value 指标值
+ */
+export function formatAlertValue(metric: AlertMetric, value: number | null | undefined): string {
+  if (value === null || value === undefined) return '-'
+  if (metric === 'success_rate') return `${value.toFixed(2)}%`
+  if (metric === 'daily_tokens') return formatTokens(value)
+  return String(value)
+}
+
+/**
+ * 生成规则的可读描述，例如“成功率（7d）低于 95.00%”
+ * @param rule 告警规则
+ */
+export function describeAlertRule(rule: AlertRule): string {
+  const label =
+    rule.metric === 'success_rate'
+      ? `${METRIC_LABELS.success_rate}（${rule.range ?? '24h'}）`
+      : METRIC_LABELS[rule.metric]
+  const comparison = rule.metric === 'success_rate' ? '低于' : '超过'
+  return `${label}${comparison} ${formatAlertValue(rule.metric, rule.threshold)}`
+}
+
+/**
+ * 生成告警通知的标题与正文
+ * @param rule 告警规则
+ * @param value 指标当前值
+ * @param recovered 是否为恢复通知
+ */
+export function buildAlertMessage(
+  rule: AlertRule,
+  value: number,
+  recovered: boolean,
+): { title: string; content: string } {
+  const current = `当前 ${METRIC_LABELS[rule.metric]}：${formatAlertValue(rule.metric, value)}`
+  return recovered
+    ? { title: `告警已恢复：${describeAlertRule(rule)}`, content: current }
+    : { title: `用量告警：${describeAlertRule(rule)}`, content: current }
+}
@@ -0,0 +1,30 @@
+/**
+ * 以有限并发执行异步任务
+ * @param items 任务数据
+ * @param limit 最大并发数
+ * @param worker 处理单个任务的函数
+ * @returns 与 items 顺序一致的执行结果
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = Array.from({ length: items.length })
+  let nextIndex = 0
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index] as T, index) }
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason }
+      }
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length))
+  await Promise.all(Array.from({ length: workerCount }, runNext))
+  return results
+}
@@ -0,0 +1,416 @@
+/**
+ * 网关配置备份工具函数
+ * 负责备份文件的生成、校验、密钥加解密，以及备份与服务器现有配置的差异计算
+ */
+import type {
+  ConfigBackupApiKey,
+  ConfigBackupEndpoint,
+  ConfigBackupFile,
+  ConfigBackupKeyMode,
+  ConfigBackupModel,
+  ConfigBackupPlatform,
+  ConfigBackupSecrets,
+  ConfigLivePlatform,
+  ConfigPlatformDiff,
+} from '@/types/configBackup'
+import type { Endpoint } from '@/types/provider'
+
+export const CONFIG_BACKUP_KEY_MODE_OPTIONS: { label: string; value: ConfigBackupKeyMode }[] = [
+  { label: '明文导出密钥', value: 'plain' },
+  { label: '脱敏（不导出密钥值）', value: 'redacted' },
+  { label: '使用口令加密密钥', value: 'encrypted' },
+]
+
+const PBKDF2_ITERATIONS = 210000
+
+function getSubtle(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('当前环境不支持 WebCrypto，请通过 HTTPS 或 localhost 访问')
+  }
+  return crypto.subtle
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+function decodeBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * 计算密钥值的 SHA-256 指纹（十六进制）
+ * @param value 密钥值
+ */
+export async function fingerprintKey(value: string): Promise<string> {
+  const digest = await getSubtle().digest('SHA-256', new TextEncoder().encode(value))
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function deriveAesKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<CryptoKey> {
+  const subtle = getSubtle()
+  const baseKey = await subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  )
+  return subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/**
+ * 使用口令加密密钥值
+ * @param values 密钥 ref 到密钥值的映射
+ * @param passphrase 口令
+ */
+export async function encryptSecrets(
+  values: Record<string, string>,
+  passphrase: string,
+): Promise<ConfigBackupSecrets> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await deriveAesKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const ciphertext = await getSubtle().encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(values)),
+  )
+  return {
+    algorithm: 'AES-GCM',
+    kdf: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: encodeBase64(salt),
+    iv: encodeBase64(iv),
+    ciphertext: encodeBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+/**
+ * 使用口令解密密钥值
+ * @param secrets 加密后的密钥值
+ * @param passphrase 口令
+ * @throws 口令错误或数据损坏时抛出错误
+ */
+export async function decryptSecrets(
+  secrets: ConfigBackupSecrets,
+  passphrase: string,
+): Promise<Record<string, string>> {
+  const key = await deriveAesKey(passphrase, decodeBase64(secrets.salt), secrets.iterations)
+  try {
+    const plaintext = await getSubtle().decrypt(
+      { name: 'AES-GCM', iv: decodeBase64(secrets.iv) },
+      key,
+      decodeBase64(secrets.ciphertext),
+    )
+    return JSON.parse(new TextDecoder().decode(plaintext)) as Record<string, string>
+  } catch {
+    throw new Error('口令错误或备份文件已损坏')
+  }
+}
+
+function toBackupEndpoint(endpoint: Endpoint): ConfigBackupEndpoint {
+  return {
+    endpoint_type: endpoint.endpoint_type,
+    endpoint_variant: endpoint.endpoint_variant,
+    path: endpoint.path,
+    custom_headers: endpoint.custom_headers ? { ...endpoint.custom_headers } : undefined,
+    is_default: endpoint.is_default,
+  }
+}
+
+/**
+ * 根据服务器上的配置生成备份文件
+ * @param live 服务器上的平台配置
+ * @param keyMode 密钥导出方式
+ * @param passphrase 加密口令，仅 keyMode 为 encrypted 时需要
+ */
+export async function buildConfigBackup(
+  live: ConfigLivePlatform[],
+  keyMode: ConfigBackupKeyMode,
+  passphrase = '',
+): Promise<ConfigBackupFile> {
+  const secrets: Record<string, string> = {}
+  let refIndex = 0
+  const platforms: ConfigBackupPlatform[] = []
+
+  for (const { platform, keys, models } of live) {
+    const refById = new Map<number, string>()
+    const apiKeys: ConfigBackupApiKey[] = []
+    for (const key of keys) {
+      const ref = `k${++refIndex}`
+      refById.set(key.id, ref)
+      if (keyMode === 'plain') {
+        apiKeys.push({ ref, value: key.value })
+        continue
+      }
+      apiKeys.push({ ref, fingerprint: await fingerprintKey(key.value) })
+      if (keyMode === 'encrypted') {
+        secrets[ref] = key.value
+      }
+    }
+
+    platforms.push({
+      name: platform.name,
+      base_url: platform.base_url,
+      rate_limit: { rpm: platform.rate_limit?.rpm ?? 0, tpm: platform.rate_limit?.tpm ?? 0 },
+      endpoints: (platform.endpoints ?? []).map(toBackupEndpoint),
+      api_keys: apiKeys,
+      models: models.map((model) => ({
+        name: model.name,
+        alias: model.alias ?? '',
+        api_keys: (model.api_keys ?? [])
+          .map((key) => refById.get(key.id))
+          .filter((ref): ref is string => ref !== undefined),
+      })),
+    })
+  }
+
+  return {
+    type: 'pinai-config-backup',
+    version: 1,
+    exported_at: new Date().toISOString(),
+    key_mode: keyMode,
+    platforms,
+    secrets: keyMode === 'encrypted' ? await encryptSecrets(secrets, passphrase) : undefined,
+  }
+}
+
+/**
+ * 校验并解析备份文件
+ * @param data 解析后的 JSON 内容
+ * @throws 文件格式不正确时抛出错误
+ */
+export function parseConfigBackup(data: unknown): ConfigBackupFile {
+  const file = data as Partial<ConfigBackupFile> | null
+  if (!file || file.type !== 'pinai-config-backup' || !Array.isArray(file.platforms)) {
+    throw new Error('文件格式不正确，不是配置备份文件')
+  }
+  if (file.version !== 1) {
+    throw new Error(`不支持的备份文件版本：${String(file.version)}`)
+  }
+  if (!CONFIG_BACKUP_KEY_MODE_OPTIONS.some((option) => option.value === file.key_mode)) {
+    throw new Error(`未知的密钥导出方式：${String(file.key_mode)}`)
+  }
+  if (file.key_mode === 'encrypted' && !file.secrets) {
+    throw new Error('备份文件缺少加密的密钥数据')
+  }
+
+  const platforms = file.platforms.filter(
+    (platform): platform is ConfigBackupPlatform =>
+      !!platform && typeof platform.name === 'string' && typeof platform.base_url === 'string',
+  )
+  return {
+    ...(file as ConfigBackupFile),
+    platforms: platforms.map((platform) => ({
+      ...platform,
+      rate_limit: platform.rate_limit ?? { rpm: 0, tpm: 0 },
+      endpoints: Array.isArray(platform.endpoints) ? platform.endpoints : [],
+      api_keys: Array.isArray(platform.api_keys)
+        ? platform.api_keys.filter(
+            (key): key is ConfigBackupApiKey => !!key && typeof key.ref === 'string',
+          )
+        : [],
+      models: Array.isArray(platform.models)
+        ? platform.models
+            .filter(
+              (model): model is ConfigBackupModel => !!model && typeof model.name === 'string',
+            )
+            .map((model) => ({
+              name: model.name,
+              alias: typeof model.alias === 'string' ? model.alias : '',
+              api_keys: Array.isArray(model.api_keys)
+                ? model.api_keys.filter((ref): ref is string => typeof ref === 'string')
+                : [],
+            }))
+        : [],
+    })),
+  }
+}
+
+/**
+ * 还原备份中的密钥值：加密备份使用口令解密，其他方式原样返回
+ * @param file 备份文件
+ * @param passphrase 解密口令
+ */
+export async function resolveBackupPlatforms(
+  file: ConfigBackupFile,
+  passphrase = '',
+): Promise<ConfigBackupPlatform[]> {
+  if (file.key_mode !== 'encrypted' || !file.secrets) {
+    return file.platforms
+  }
+  const values = await decryptSecrets(file.secrets, passphrase)
+  return file.platforms.map((platform) => ({
+    ...platform,
+    api_keys: platform.api_keys.map((key) => ({ ...key, value: values[key.ref] ?? key.value })),
+  }))
+}
+
+function isSameHeaders(a?: Record<string, string>, b?: Record<string, string>): boolean {
+  const entriesA = Object.entries(a ?? {}).sort(([x], [y]) => x.localeCompare(y))
+  const entriesB = Object.entries(b ?? {}).sort(([x], [y]) => x.localeCompare(y))
+  return JSON.stringify(entriesA) === JSON.stringify(entriesB)
+}
+
+function isSameEndpoint(backup: ConfigBackupEndpoint, live: Endpoint): boolean {
+  return (
+    backup.path === live.path &&
+    backup.is_default === live.is_default &&
+    isSameHeaders(backup.custom_headers, live.custom_headers)
+  )
+}
+
+/**
+ * 计算备份中的平台与服务器现有配置的差异
+ * 平台按名称匹配，端点按类型与变体匹配，密钥按值（脱敏时按指纹）匹配，模型按名称匹配；
+ * 导入只新增或更新，不删除服务器上多出的资源，模型更新时保留服务器上已有的密钥关联
+ * @param backup 备份中的平台（加密备份需先解密）
+ * @param live 服务器上同名平台的配置，不存在时为 null
+ */
+export async function diffPlatformConfig(
+  backup: ConfigBackupPlatform,
+  live: ConfigLivePlatform | null,
+): Promise<ConfigPlatformDiff> {
+  const diff: ConfigPlatformDiff = {
+    name: backup.name,
+    action: live ? 'unchanged' : 'create',
+    existingId: live?.platform.id ?? null,
+    platform: backup,
+    platformChanges: [],
+    endpointsToCreate: [],
+    endpointsToUpdate: [],
+    keysToCreate: [],
+    skippedKeys: 0,
+    modelsToCreate: [],
+    modelsToUpdate: [],
+    skippedModels: [],
+    existingKeyIds: {},
+  }
+
+  if (live) {
+    if (backup.base_url !== live.platform.base_url) diff.platformChanges.push('Base URL')
+    if (
+      backup.rate_limit.rpm !== (live.platform.rate_limit?.rpm ?? 0) ||
+      backup.rate_limit.tpm !== (live.platform.rate_limit?.tpm ?? 0)
+    ) {
+      diff.platformChanges.push('速率限制')
+    }
+
+    for (const endpoint of backup.endpoints) {
+      const existing = (live.platform.endpoints ?? []).find(
+        (item) =>
+          item.endpoint_type === endpoint.endpoint_type &&
+          item.endpoint_variant === endpoint.endpoint_variant,
+      )
+      if (!existing) {
+        diff.endpointsToCreate.push(endpoint)
+      } else if (existing.id !== undefined && !isSameEndpoint(endpoint, existing)) {
+        diff.endpointsToUpdate.push({ ...endpoint, id: existing.id })
+      }
+    }
+  } else {
+    diff.endpointsToCreate = [...backup.endpoints]
+  }
+
+  // 脱敏的密钥只能通过指纹匹配，按需计算服务器上密钥的指纹
+  let liveFingerprints: Map<string, number> | null = null
+  const findLiveKeyId = async (key: ConfigBackupApiKey): Promise<number | undefined> => {
+    if (!live) return undefined
+    if (key.value !== undefined) {
+      return live.keys.find((item) => item.value === key.value)?.id
+    }
+    if (!key.fingerprint) return undefined
+    if (!liveFingerprints) {
+      liveFingerprints = new Map()
+      for (const item of live.keys) {
+        liveFingerprints.set(await fingerprintKey(item.value), item.id)
+      }
+    }
+    return liveFingerprints.get(key.fingerprint)
+  }
+
+  const creatableRefs = new Set<string>()
+  for (const key of backup.api_keys) {
+    const existingId = await findLiveKeyId(key)
+    if (existingId !== undefined) {
+      diff.existingKeyIds[key.ref] = existingId
+    } else if (key.value) {
+      diff.keysToCreate.push(key)
+      creatableRefs.add(key.ref)
+    } else {
+      diff.skippedKeys++
+    }
+  }
+
+  for (const model of backup.models) {
+    const refs = model.api_keys.filter(
+      (ref) => diff.existingKeyIds[ref] !== undefined || creatableRefs.has(ref),
+    )
+    const existing = live?.models.find((item) => item.name === model.name)
+    if (!existing) {
+      if (refs.length > 0) {
+        diff.modelsToCreate.push({ ...model, api_keys: refs })
+      } else {
+        diff.skippedModels.push(model.name)
+      }
+      continue
+    }
+
+    // 备份中缺少或无法匹配的密钥不视为解除关联，仅在需要新增关联时更新密钥
+    const liveKeyIds = (existing.api_keys ?? []).map((key) => key.id)
+    const keysAdded = refs.some(
+      (ref) => creatableRefs.has(ref) || !liveKeyIds.includes(diff.existingKeyIds[ref] as number),
+    )
+    if (keysAdded || model.alias !== (existing.alias ?? '')) {
+      diff.modelsToUpdate.push({ ...model, api_keys: refs, id: existing.id, liveKeyIds })
+    }
+  }
+
+  if (
+    live &&
+    (diff.platformChanges.length > 0 ||
+      diff.endpointsToCreate.length > 0 ||
+      diff.endpointsToUpdate.length > 0 ||
+      diff.keysToCreate.length > 0 ||
+      diff.modelsToCreate.length > 0 ||
+      diff.modelsToUpdate.length > 0)
+  ) {
+    diff.action = 'update'
+  }
+  return diff
+}
+
+/**
+ * 生成平台变更计划的简要描述
+ * @param diff 平台变更计划
+ */
+export function describePlatformDiff(diff: ConfigPlatformDiff): string[] {
+  const parts: string[] = []
+  if (diff.platformChanges.length > 0) parts.push(`更新 ${diff.platformChanges.join('、')}`)
+  if (diff.endpointsToCreate.length > 0) parts.push(`新增端点 ${diff.endpointsToCreate.length}`)
+  if (diff.endpointsToUpdate.length > 0) parts.push(`更新端点 ${diff.endpointsToUpdate.length}`)
+  if (diff.keysToCreate.length > 0) parts.push(`新增密钥 ${diff.keysToCreate.length}`)
+  if (diff.modelsToCreate.length > 0) parts.push(`新增模型 ${diff.modelsToCreate.length}`)
+  if (diff.modelsToUpdate.length > 0) parts.push(`更新模型 ${diff.modelsToUpdate.length}`)
+  return parts
+}
@@ -0,0 +1,162 @@
+import type { LocationQuery } from 'vue-router'
+import type { DashboardQueryOptions, StatsRange } from '@/types/stats'
+import { readQueryValue } from '@/utils/routeQuery'
+
+/**
+ * 仪表盘时间范围预设
+ * 24h / 7d / 30d 为后端内置范围，其余预设按绝对起止时间查询
+ */
+export type DashboardRangePreset = '1h' | '6h' | '24h' | '7d' | '30d' | '90d' | 'month' | 'custom'
+
+/**
+ * 解析后的仪表盘时间范围
+ */
+export interface DashboardRangeSelection {
+  preset: DashboardRangePreset
+  start: number
+  end: number
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+export const DASHBOARD_RANGE_OPTIONS: Array<{ label: string; value: DashboardRangePreset }> = [
+  { label: '1 小时', value: '1h' },
+  { label: '6 小时', value: '6h' },
+  { label: '24 小时', value: '24h' },
+  { label: '7 天', value: '7d' },
+  { label: '30 天', value: '30d' },
+  { label: '90 天', value: '90d' },
+  { label: '本月', value: 'month' },
+  { label: '自定义', value: 'custom' },
+]
+
+const BUILTIN_RANGES: readonly StatsRange[] = ['24h', '7d', '30d']
+
+const RELATIVE_PRESET_SPANS: Partial<Record<DashboardRangePreset, number>> = {
+  '1h': HOUR,
+  '6h': 6 * HOUR,
+  '24h': DAY,
+  '7d': 7 * DAY,
+  '30d': 30 * DAY,
+  '90d': 90 * DAY,
+}
+
+function isBuiltinRange(preset: DashboardRangePreset): preset is StatsRange {
+  return (BUILTIN_RANGES as readonly string[]).includes(preset)
+}
+
+/**
+ * 计算预设对应的起止时间（相对预设以当前时间为结束）
+ * @param preset 时间范围预设（不含 custom）
+ * @param now 当前时间戳
+ */
+export function resolvePresetRange(
+  preset: Exclude<DashboardRangePreset, 'custom'>,
+  now = Date.now(),
+): DashboardRangeSelection {
+  if (preset === 'month') {
+    const date = new Date(now)
+    const start = new Date(date.getFullYear(), date.getMonth(), 1).getTime()
+    return { preset, start, end: now }
+  }
+  const span = RELATIVE_PRESET_SPANS[preset] ?? DAY
+  return { preset, start: now - span, end: now }
+}
+
+/**
+ * 按时间跨度自动选择趋势粒度
+ * @param start 开始时间戳
+ * @param end 结束时间戳
+ */
+export function pickGranularity(start: number, end: number): string {
+  const span = end - start
+  if (span <= 2 * HOUR) return '5m'
+  if (span <= 2 * DAY) return '1h'
+  return '1d'
+}
+
+/**
+ * 选择覆盖指定跨度的最小内置范围，用于后端拒绝自定义范围时回退
+ * @param start 开始时间戳
+ * @param end 结束时间戳
+ */
+export function nearestBuiltinRange(start: number, end: number): StatsRange {
+  const span = end - start
+  if (span <= DAY) return '24h'
+  if (span <= 7 * DAY) return '7d'
+  return '30d'
+}
+
+/**
+ * 构建仪表盘查询参数：内置范围沿用 range 参数，其余按绝对起止时间查询
+ * @param selection 时间范围
+ */
+export function buildDashboardQuery(selection: DashboardRangeSelection): DashboardQueryOptions {
+  if (isBuiltinRange(selection.preset)) {
+    return { range: selection.preset }
+  }
+  return {
+    start_time: new Date(selection.start).toISOString(),
+    end_time: new Date(selection.end).toISOString(),
+    granularity: pickGranularity(selection.start, selection.end),
+  }
+}
+
+/**
+ * 计算紧邻当前范围之前、等长的上一周期
+ * @param selection 当前时间范围
+ */
+export function getPreviousPeriod(selection: DashboardRangeSelection): {
+  start: number
+  end: number
+} {
+  const span = selection.end - selection.start
+  return { start: selection.start - span, end: selection.start }
+}
+
+/**
+ * 从路由查询参数解析时间范围，非法值回退为 24h
+ * @param query 路由查询参数
+ */
+export function parseDashboardRangeQuery(query: LocationQuery): DashboardRangeSelection {
+  const range = readQueryValue(query, 'range')
+  if (range === 'custom') {
+    const start = new Date(readQueryValue(query, 'start') ?? '').getTime()
+    const end = new Date(readQueryValue(query, 'end') ?? '').getTime()
+    if (!isNaN(start) && !isNaN(end) && start < end) {
+      return { preset: 'custom', start, end }
+    }
+  }
+
+  const preset = DASHBOARD_RANGE_OPTIONS.find(
+    (option) => option.value === range && option.value !== 'custom',
+  )?.value as Exclude<DashboardRangePreset, 'custom'> | undefined
+  return resolvePresetRange(preset ?? '24h')
+}
+
+/**
+ * 将时间范围序列化为路由查询参数（默认 24h 时省略）
+ * @param selection 时间范围
+ */
+export function serializeDashboardRangeQuery(
+  selection: DashboardRangeSelection,
+): Record<string, string> {
+  if (selection.preset === 'custom') {
+    return {
+      range: 'custom',
+      start: new Date(selection.start).toISOString(),
+      end: new Date(selection.end).toISOString(),
+    }
+  }
+  return selection.preset === '24h' ? {} : { range: selection.preset }
+}
+
+/**
+ * 生成时间范围的可读描述
+ * @param selection 时间范围
+ */
+export function describeDashboardRange(selection: DashboardRangeSelection): string {
+  const format = (value: number) => new Date(value).toLocaleString('zh-CN', { hour12: false })
+  return `${format(selection.start)} - ${format(selection.end)}`
+}
@@ -39,6 +39,14 @@ function extractErrorMessage(body: string, maxLength: number = 200): string {
   }
 }
 
+/**
+ * 判断错误是否由调用方取消请求导致（取消时通常无需提示）
+ * @param error 错误对象
+ */
+export function isRequestCanceled(error: unknown): boolean {
+  return (error as ApiError | null)?.isCanceled === true
+}
+
 /**
  * 统一错误处理函数
  * @param error 错误对象
@@ -51,6 +59,8 @@ export function handleApiError(error: unknown, operation: string): string {
   // 特殊错误类型（保持不变）
   if (apiError.isServerNotSelected) {
     return `${operation}失败：未选择 API 服务器`
+  } else if (apiError.isCanceled) {
+    return `${operation}已取消`
   } else if (apiError.isTimeout) {
     return `${operation}失败：请求超时，请检查网络连接`
   } else if (apiError.isAuthError) {
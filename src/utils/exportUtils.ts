@@ -0,0 +1,88 @@
+/**
+ * 文件导出工具函数
+ * 提供 CSV / NDJSON 序列化与浏览器下载能力
+ */
+
+// 以这些字符开头的文本会被 Excel 等表格软件当作公式执行
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * 转义单个 CSV 单元格（RFC 4180）
+ * 包含逗号、引号或换行时使用双引号包裹，内部引号加倍；
+ * 以公式字符开头的文本前加单引号，防止 CSV 注入（数值不处理，保留负数）
+ * @param value 单元格值
+ * @returns 转义后的文本
+ */
+export function escapeCsvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  if (typeof value === 'string' && CSV_FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * 将对象数组序列化为 CSV 文本
+ * @param columns 列定义，title 为表头，value 为取值函数
+ * @param rows 数据行
+ * @returns CSV 文本（行分隔符为 CRLF）
+ */
+export function toCsv<T>(
+  columns: Array<{ title: string; value: (row: T) => unknown }>,
+  rows: readonly T[],
+): string {
+  const header = columns.map((column) => escapeCsvCell(column.title)).join(',')
+  const lines = rows.map((row) =>
+    columns.map((column) => escapeCsvCell(column.value(row))).join(','),
+  )
+  return [header, ...lines].join('\r\n')
+}
+
+/**
+ * 将对象数组序列化为 NDJSON 文本（每行一个 JSON 对象）
+ * @param records 数据记录
+ * @returns NDJSON 文本
+ */
+export function toNdjson(records: readonly unknown[]): string {
+  return records.map((record) => JSON.stringify(record)).join('\n')
+}
+
+/**
+ * 触发浏览器下载文本文件
+ * @param content 文件内容
+ * @param filename 文件名
+ * @param mimeType MIME 类型
+ */
+export function downloadTextFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.style.display = 'none'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  // 延迟释放，避免部分浏览器尚未开始下载时 URL 已失效
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * 生成带时间戳的导出文件名，例如 request-logs-20240101-120000.csv
+ * @param prefix 文件名前缀
+ * @param extension 扩展名（不含点）
+ * @returns 文件名
+ */
+export function buildTimestampedFilename(prefix: string, extension: string): string {
+  const now = new Date()
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`
+  const time = `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`
+  return `${prefix}-${date}-${time}.${extension}`
+}
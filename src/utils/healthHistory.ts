@@ -0,0 +1,169 @@
+import {
+  HealthResourceType,
+  HealthStatus,
+  type ApiKeyHealthItem,
+  type HealthHistorySegment,
+  type HealthSnapshotInput,
+  type ModelHealthItem,
+  type PlatformHealthItem,
+} from '@/types/health'
+
+/**
+ * 健康历史的快照转换与状态带计算
+ */
+
+/**
+ * 状态带中的一个时间块
+ * @property {HealthStatus | null} status - 该时间段内最严重的状态，无记录时为 null
+ * @property {number} errorIncrease - 该时间段内新增的错误次数
+ */
+export interface HealthBandBlock {
+  start: number
+  end: number
+  status: HealthStatus | null
+  errorIncrease: number
+  segments: HealthHistorySegment[]
+}
+
+/**
+ * 健康历史摘要
+ * @property {number} statusChanges - 状态变化次数（用于判断是否抖动）
+ * @property {number} errorIncrease - 记录期间新增的错误次数
+ */
+export interface HealthHistorySummary {
+  statusChanges: number
+  errorIncrease: number
+  observations: number
+}
+
+// 状态严重程度，用于在同一时间块内取最严重的状态
+const STATUS_SEVERITY: Record<HealthStatus, number> = {
+  [HealthStatus.Available]: 0,
+  [HealthStatus.Unknown]: 1,
+  [HealthStatus.Warning]: 2,
+  [HealthStatus.Unavailable]: 3,
+}
+
+/**
+ * 脱敏显示 API 密钥，健康历史中只保存脱敏后的值
+ */
+export function maskApiKey(key: string): string {
+  if (!key || key.length <= 8) return '***'
+  return `${key.substring(0, 4)}...${key.substring(key.length - 4)}`
+}
+
+export function toPlatformSnapshot(item: PlatformHealthItem): HealthSnapshotInput {
+  return {
+    resource_type: HealthResourceType.Platform,
+    resource_id: item.platform_id,
+    resource_name: item.platform_name,
+    status: item.status,
+    retry_count: item.retry_count,
+    success_count: item.success_count,
+    error_count: item.error_count,
+    last_error: item.last_error,
+    last_check_at: item.last_check_at,
+  }
+}
+
+export function toApiKeySnapshot(item: ApiKeyHealthItem): HealthSnapshotInput {
+  return {
+    resource_type: HealthResourceType.APIKey,
+    resource_id: item.key_id,
+    resource_name: maskApiKey(item.key_value),
+    status: item.status,
+    retry_count: item.retry_count,
+    success_count: item.success_count,
+    error_count: item.error_count,
+    last_error: item.last_error,
+    last_check_at: item.last_check_at,
+  }
+}
+
+export function toModelSnapshot(item: ModelHealthItem): HealthSnapshotInput {
+  return {
+    resource_type: HealthResourceType.Model,
+    resource_id: item.model_id,
+    resource_name: item.model_alias || item.model_name,
+    status: item.status,
+    retry_count: item.retry_count,
+    success_count: item.success_count,
+    error_count: item.error_count,
+    last_error: item.last_error,
+    last_check_at: item.last_check_at,
+  }
+}
+
+/**
+ * 计算相邻片段间新增的错误次数（计数被重置时按 0 处理）
+ */
+function getErrorIncrease(segment: HealthHistorySegment, previous?: HealthHistorySegment): number {
+  if (!previous) return 0
+  return Math.max(0, segment.error_count - previous.error_count)
+}
+
+/**
+ * 将历史片段划分为等长时间块，生成状态带
+ * @param segments 按时间升序排列的片段
+ * @param start 开始时间戳
+ * @param end 结束时间戳
+ * @param blockCount 时间块数量
+ */
+export function buildHealthStatusBand(
+  segments: readonly HealthHistorySegment[],
+  start: number,
+  end: number,
+  blockCount = 60,
+): HealthBandBlock[] {
+  const span = Math.max(1, end - start) / blockCount
+  const blocks: HealthBandBlock[] = Array.from({ length: blockCount }, (_, index) => ({
+    start: start + span * index,
+    end: start + span * (index + 1),
+    status: null,
+    errorIncrease: 0,
+    segments: [],
+  }))
+
+  segments.forEach((segment, segmentIndex) => {
+    const errorIncrease = getErrorIncrease(segment, segments[segmentIndex - 1])
+    let counted = false
+    for (const block of blocks) {
+      if (segment.last_seen_at < block.start || segment.first_seen_at >= block.end) continue
+      block.segments.push(segment)
+      if (
+        block.status === null ||
+        STATUS_SEVERITY[segment.status] > STATUS_SEVERITY[block.status]
+      ) {
+        block.status = segment.status
+      }
+      // 新增错误计入片段开始所在的时间块
+      if (!counted && segment.first_seen_at >= block.start) {
+        block.errorIncrease += errorIncrease
+        counted = true
+      }
+    }
+  })
+
+  return blocks
+}
+
+/**
+ * 汇总历史片段
+ * @param segments 按时间升序排列的片段
+ */
+export function summarizeHealthHistory(
+  segments: readonly HealthHistorySegment[],
+): HealthHistorySummary {
+  let statusChanges = 0
+  let errorIncrease = 0
+  let observations = 0
+
+  segments.forEach((segment, index) => {
+    const previous = segments[index - 1]
+    if (previous && previous.status !== segment.status) statusChanges++
+    errorIncrease += getErrorIncrease(segment, previous)
+    observations += segment.observations
+  })
+
+  return { statusChanges, errorIncrease, observations }
+}
@@ -0,0 +1,307 @@
+import { HealthResourceType, type HealthIssueItem } from '@/types/health'
+import { normalizeErrorText } from '@/utils/requestLogUtils'
+
+/**
+ * 健康问题的错误类别
+ */
+export type IssueErrorCategory =
+  | 'auth'
+  | 'forbidden'
+  | 'not_found'
+  | 'quota'
+  | 'rate_limit'
+  | 'server'
+  | 'timeout'
+  | 'other'
+
+/**
+ * 错误来源：上游平台返回，或网关自身产生
+ */
+export type IssueErrorOrigin = 'upstream' | 'gateway' | 'unknown'
+
+/**
+ * 问题分组维度
+ */
+export type IssueBreakdownDimension = 'category' | 'code' | 'http_status' | 'origin'
+
+/**
+ * 错误类别说明
+ * @property {string} title - 类别名称
+ * @property {string} codes - 对应的常见状态码或错误码
+ * @property {string} description - 常见原因
+ * @property {string[]} actions - 建议处理方式
+ */
+export interface IssueErrorCatalogEntry {
+  title: string
+  codes: string
+  description: string
+  actions: string[]
+}
+
+/**
+ * 问题分组结果
+ * @property {string} key - 分组键
+ * @property {string} label - 分组显示名称
+ * @property {number} count - 问题数
+ * @property {Array<{ key: string; name: string; count: number }>} platforms - 各平台问题数（降序），按平台 ID 区分同名平台
+ * @property {IssueErrorCategory[]} categories - 分组内出现的错误类别
+ */
+export interface IssueBreakdownGroup {
+  key: string
+  label: string
+  count: number
+  platforms: { key: string; name: string; count: number }[]
+  categories: IssueErrorCategory[]
+}
+
+/**
+ * 选中的分组，用于筛选问题列表
+ */
+export interface IssueGroupSelection {
+  dimension: IssueBreakdownDimension
+  key: string
+  label: string
+}
+
+export const ISSUE_BREAKDOWN_DIMENSIONS: { label: string; value: IssueBreakdownDimension }[] = [
+  { label: '错误类别', value: 'category' },
+  { label: '错误码', value: 'code' },
+  { label: 'HTTP 状态', value: 'http_status' },
+  { label: '来源', value: 'origin' },
+]
+
+export const ISSUE_ERROR_CATALOG: Record<IssueErrorCategory, IssueErrorCatalogEntry> = {
+  auth: {
+    title: '认证失败',
+    codes: 'HTTP 401 / invalid_api_key',
+    description: '密钥无效、已过期或被吊销，也可能是平台的鉴权方式（请求头）配置不正确。',
+    actions: [
+      '在平台管理中检查该密钥是否完整、是否仍在有效期内',
+      '到上游控制台确认密钥未被删除或轮换',
+      '确认平台的接口格式与鉴权头设置与上游一致',
+    ],
+  },
+  forbidden: {
+    title: '无权限',
+    codes: 'HTTP 403',
+    description: '密钥有效但无权访问该模型或接口，常见于模型未开通、地区限制或组织权限不足。',
+    actions: [
+      '确认上游账号已开通该模型的访问权限',
+      '检查上游是否有 IP 白名单或地区限制',
+      '移除该平台下无权访问的模型，避免继续路由',
+    ],
+  },
+  not_found: {
+    title: '资源不存在',
+    codes: 'HTTP 404 / model_not_found',
+    description: '模型名称或接口地址不存在，通常是模型已下线、名称拼写错误或 Base URL 路径有误。',
+    actions: [
+      '核对模型名称是否与上游模型列表一致',
+      '检查平台 Base URL 与端点路径是否多写或少写了 /v1',
+      '使用批量更新功能同步上游最新模型列表',
+    ],
+  },
+  quota: {
+    title: '额度耗尽',
+    codes: 'HTTP 402 / insufficient_quota / quota exceeded',
+    description: '上游账户余额不足或已超出套餐额度，通常在充值或额度重置前会持续失败。',
+    actions: [
+      '到上游控制台充值或提升额度上限',
+      '暂时禁用该密钥，避免请求持续失败',
+      '为同一模型配置其他平台或密钥作为备用',
+    ],
+  },
+  rate_limit: {
+    title: '请求限流',
+    codes: 'HTTP 429 / rate_limit_exceeded',
+    description: '短时间内请求过多，超出上游的 RPM / TPM 限制，一般会在一段时间后自动恢复。',
+    actions: [
+      '等待限流窗口结束后恢复该资源',
+      '为该平台增加密钥以分摊请求',
+      '在上游提升速率限制等级',
+    ],
+  },
+  server: {
+    title: '上游服务异常',
+    codes: 'HTTP 5xx',
+    description: '上游服务内部错误、过载或网关故障（500 / 502 / 503 / 504），通常与本地配置无关。',
+    actions: [
+      '查看上游状态页确认是否存在故障',
+      '稍后恢复该资源重试，持续失败时暂时禁用',
+      '为关键模型配置其他平台作为备用',
+    ],
+  },
+  timeout: {
+    title: '超时或网络错误',
+    codes: 'timeout / connection refused',
+    description: '连接上游超时或被拒绝，可能是网络不通、代理配置错误或上游响应过慢。',
+    actions: [
+      '检查服务器到上游地址的网络连通性与代理设置',
+      '确认 Base URL 的协议与端口正确',
+      '上游响应慢时可适当调大超时时间',
+    ],
+  },
+  other: {
+    title: '其他错误',
+    codes: '-',
+    description: '未能归类的错误，请结合原始错误信息排查。',
+    actions: ['查看问题详情中的原始错误信息', '在使用日志中筛选该模型的失败请求查看完整响应'],
+  },
+}
+
+const ORIGIN_LABELS: Record<IssueErrorOrigin, string> = {
+  upstream: '上游',
+  gateway: '网关',
+  unknown: '未知来源',
+}
+
+const QUOTA_PATTERN = /quota|insufficient.?(balance|funds)|billing|余额|额度/i
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|限流|频率/i
+const AUTH_PATTERN = /unauthori[sz]ed|invalid.?api.?key|authentication|incorrect api key/i
+const NOT_FOUND_PATTERN = /not.?found|does not exist|不存在/i
+const TIMEOUT_PATTERN =
+  /timeout|timed out|deadline|connection (refused|reset)|no such host|\b(unexpected )?eof\b/i
+
+function getIssueText(item: HealthIssueItem): string {
+  return [
+    item.last_structured_error_code,
+    item.last_error_message,
+    item.last_cause_message,
+    item.last_error,
+  ]
+    .map((value) => normalizeErrorText(value))
+    .filter(Boolean)
+    .join(' ')
+}
+
+/**
+ * 按 HTTP 状态与错误信息归类问题
+ * 额度类错误优先判断（上游常以 429 返回 insufficient_quota）
+ * @param item 健康问题
+ */
+export function classifyHealthIssue(item: HealthIssueItem): IssueErrorCategory {
+  const status = typeof item.last_http_status === 'number' ? item.last_http_status : null
+  const text = getIssueText(item)
+
+  if (status === 402 || QUOTA_PATTERN.test(text)) return 'quota'
+  if (status === 401) return 'auth'
+  if (status === 403) return 'forbidden'
+  if (status === 404) return 'not_found'
+  if (status === 429) return 'rate_limit'
+  if (status === 408 || status === 504) return 'timeout'
+  if (status !== null && status >= 500) return 'server'
+
+  if (RATE_LIMIT_PATTERN.test(text)) return 'rate_limit'
+  if (AUTH_PATTERN.test(text)) return 'auth'
+  if (NOT_FOUND_PATTERN.test(text)) return 'not_found'
+  if (TIMEOUT_PATTERN.test(text)) return 'timeout'
+  return 'other'
+}
+
+/**
+ * 判断错误来源，error_from 为 upstream 类取值时视为上游错误，其余非空取值视为网关错误
+ * @param item 健康问题
+ */
+export function getIssueOrigin(item: HealthIssueItem): IssueErrorOrigin {
+  const errorFrom = normalizeErrorText(item.last_error_from)
+  if (!errorFrom) return 'unknown'
+  return /upstream|provider|platform/i.test(errorFrom) ? 'upstream' : 'gateway'
+}
+
+/**
+ * 问题所属平台（平台类问题即资源本身）
+ * 按平台 ID 区分，名称仅用于显示；缺少 ID 时才按名称区分
+ * @param item 健康问题
+ */
+export function getIssuePlatform(item: HealthIssueItem): { key: string; name: string } {
+  const isPlatform = item.resource_type === HealthResourceType.Platform
+  const id = isPlatform ? item.resource_id : item.platform_id
+  const name = item.platform_name || (isPlatform ? item.resource_name : '')
+  if (typeof id === 'number') return { key: `id:${id}`, name: name || `平台 #${id}` }
+  if (name) return { key: `name:${name}`, name }
+  return { key: '', name: '未知平台' }
+}
+
+/**
+ * 计算问题在指定维度下的分组键与显示名称
+ * @param item 健康问题
+ * @param dimension 分组维度
+ */
+export function getIssueGroup(
+  item: HealthIssueItem,
+  dimension: IssueBreakdownDimension,
+): { key: string; label: string } {
+  switch (dimension) {
+    case 'category': {
+      const category = classifyHealthIssue(item)
+      return { key: category, label: ISSUE_ERROR_CATALOG[category].title }
+    }
+    case 'code': {
+      const code =
+        normalizeErrorText(item.last_structured_error_code) ??
+        (typeof item.last_error_code === 'number' ? String(item.last_error_code) : null)
+      return code ? { key: code, label: code } : { key: '', label: '无错误码' }
+    }
+    case 'http_status': {
+      const status = typeof item.last_http_status === 'number' ? item.last_http_status : null
+      return status !== null
+        ? { key: String(status), label: `HTTP ${status}` }
+        : { key: '', label: '无 HTTP 状态' }
+    }
+    case 'origin': {
+      const origin = getIssueOrigin(item)
+      return { key: origin, label: ORIGIN_LABELS[origin] }
+    }
+  }
+}
+
+/**
+ * 按维度对问题分组，并统计各平台的问题数
+ * @param items 健康问题列表
+ * @param dimension 分组维度
+ * @returns 按问题数降序排列的分组
+ */
+export function buildIssueBreakdown(
+  items: HealthIssueItem[],
+  dimension: IssueBreakdownDimension,
+): IssueBreakdownGroup[] {
+  const groups = new Map<
+    string,
+    {
+      label: string
+      count: number
+      platforms: Map<string, { name: string; count: number }>
+      categories: Set<IssueErrorCategory>
+    }
+  >()
+
+  for (const item of items) {
+    const { key, label } = getIssueGroup(item, dimension)
+    let group = groups.get(key)
+    if (!group) {
+      group = { label, count: 0, platforms: new Map(), categories: new Set() }
+      groups.set(key, group)
+    }
+    group.count++
+    const platform = getIssuePlatform(item)
+    const platformCount = group.platforms.get(platform.key)
+    if (platformCount) {
+      platformCount.count++
+    } else {
+      group.platforms.set(platform.key, { name: platform.name, count: 1 })
+    }
+    group.categories.add(classifyHealthIssue(item))
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      label: group.label,
+      count: group.count,
+      platforms: [...group.platforms.entries()]
+        .map(([platformKey, platform]) => ({ key: platformKey, ...platform }))
+        .sort((a, b) => b.count - a.count),
+      categories: [...group.categories],
+    }))
+    .sort((a, b) => b.count - a.count)
+}
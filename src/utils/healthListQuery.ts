@@ -0,0 +1,247 @@
+import type { LocationQuery } from 'vue-router'
+import {
+  HealthStatus,
+  type HealthListFilterParams,
+  type HealthListSortField,
+  type HealthListSortOrder,
+} from '@/types/health'
+import { readQueryValue } from '@/utils/routeQuery'
+
+/**
+ * 健康状态列表的筛选与排序状态
+ * platformId 仅对密钥、模型列表生效
+ */
+export interface HealthListFilterState {
+  status: HealthStatus | null
+  search: string
+  platformId: number | null
+  sortBy: HealthListSortField | null
+  sortOrder: HealthListSortOrder
+}
+
+/**
+ * 本地筛选的拉取情况
+ * @property {number} fetched - 已拉取并参与筛选的条数
+ * @property {number} total - 后端返回的未筛选总数
+ * @property {boolean} truncated - 达到拉取上限，筛选结果可能不完整
+ */
+export interface HealthClientFilterState {
+  fetched: number
+  total: number
+  truncated: boolean
+}
+
+/**
+ * 本地筛选所需的健康列表项公共字段
+ */
+export interface HealthListItemLike {
+  status: HealthStatus
+  last_check_at: string
+  error_count: number
+}
+
+/**
+ * 本地筛选时读取列表项 ID 与可搜索文本
+ */
+export interface HealthListItemAccessor<T> {
+  getId: (item: T) => number
+  getSearchTexts: (item: T) => string[]
+}
+
+const STATUS_QUERY_VALUES: Record<HealthStatus, string> = {
+  [HealthStatus.Unknown]: 'unknown',
+  [HealthStatus.Available]: 'available',
+  [HealthStatus.Warning]: 'warning',
+  [HealthStatus.Unavailable]: 'unavailable',
+}
+
+const SORT_FIELDS: readonly HealthListSortField[] = ['last_check_at', 'error_count']
+
+export const HEALTH_STATUS_FILTER_OPTIONS = [
+  { label: '可用', value: HealthStatus.Available },
+  { label: '警告', value: HealthStatus.Warning },
+  { label: '不可用', value: HealthStatus.Unavailable },
+  { label: '未知', value: HealthStatus.Unknown },
+]
+
+// 排序字段与方向合并为一个下拉选项，格式为 “字段:方向”
+export const HEALTH_SORT_OPTIONS = [
+  { label: '最近检查时间（新→旧）', value: 'last_check_at:desc' },
+  { label: '最近检查时间（旧→新）', value: 'last_check_at:asc' },
+  { label: '错误次数（多→少）', value: 'error_count:desc' },
+  { label: '错误次数（少→多）', value: 'error_count:asc' },
+]
+
+export function createHealthListFilterState(): HealthListFilterState {
+  return {
+    status: null,
+    search: '',
+    platformId: null,
+    sortBy: null,
+    sortOrder: 'desc',
+  }
+}
+
+/**
+ * 是否设置了任一筛选或排序条件
+ * @param state 筛选状态
+ */
+export function hasHealthListFilters(state: HealthListFilterState): boolean {
+  return (
+    state.status !== null ||
+    state.search.trim().length > 0 ||
+    state.platformId !== null ||
+    state.sortBy !== null
+  )
+}
+
+/**
+ * 比较两个筛选状态是否一致
+ */
+export function isSameHealthListFilters(a: HealthListFilterState, b: HealthListFilterState) {
+  return (
+    a.status === b.status &&
+    a.search.trim() === b.search.trim() &&
+    a.platformId === b.platformId &&
+    a.sortBy === b.sortBy &&
+    (a.sortBy === null || a.sortOrder === b.sortOrder)
+  )
+}
+
+/**
+ * 转换为后端列表接口的筛选与排序参数
+ * @param state 筛选状态
+ */
+export function toHealthListParams(
+  state: HealthListFilterState,
+): HealthListFilterParams & { platform_id?: number } {
+  const params: HealthListFilterParams & { platform_id?: number } = {}
+  const search = state.search.trim()
+
+  if (state.status !== null) params.status = state.status
+  if (search) params.search = search
+  if (state.platformId !== null) params.platform_id = state.platformId
+  if (state.sortBy) {
+    params.sort_by = state.sortBy
+    params.sort_order = state.sortOrder
+  }
+
+  return params
+}
+
+/**
+ * 从路由查询参数解析筛选状态，非法值忽略
+ * @param query 路由查询参数
+ */
+export function parseHealthListQuery(query: LocationQuery): HealthListFilterState {
+  const state = createHealthListFilterState()
+
+  const status = readQueryValue(query, 'status')
+  const statusEntry = Object.entries(STATUS_QUERY_VALUES).find(([, value]) => value === status)
+  if (statusEntry) state.status = Number(statusEntry[0]) as HealthStatus
+
+  state.search = readQueryValue(query, 'q') ?? ''
+
+  const platform = readQueryValue(query, 'platform')
+  if (platform && /^\d+$/.test(platform) && parseInt(platform, 10) > 0) {
+    state.platformId = parseInt(platform, 10)
+  }
+
+  const sort = readQueryValue(query, 'sort')
+  state.sortBy = SORT_FIELDS.find((field) => field === sort) ?? null
+  state.sortOrder = readQueryValue(query, 'order') === 'asc' ? 'asc' : 'desc'
+
+  return state
+}
+
+/**
+ * 将筛选状态序列化为路由查询参数，省略空值与默认排序方向
+ * @param state 筛选状态
+ */
+export function serializeHealthListQuery(state: HealthListFilterState): Record<string, string> {
+  const query: Record<string, string> = {}
+  const search = state.search.trim()
+
+  if (state.status !== null) query.status = STATUS_QUERY_VALUES[state.status]
+  if (search) query.q = search
+  if (state.platformId !== null) query.platform = String(state.platformId)
+  if (state.sortBy) {
+    query.sort = state.sortBy
+    if (state.sortOrder === 'asc') query.order = 'asc'
+  }
+
+  return query
+}
+
+function getCheckTime(item: HealthListItemLike): number {
+  const time = new Date(item.last_check_at).getTime()
+  return isNaN(time) ? 0 : time
+}
+
+function compareHealthListItems(
+  a: HealthListItemLike,
+  b: HealthListItemLike,
+  state: HealthListFilterState,
+): number {
+  if (!state.sortBy) return 0
+  const diff =
+    state.sortBy === 'error_count'
+      ? a.error_count - b.error_count
+      : getCheckTime(a) - getCheckTime(b)
+  return state.sortOrder === 'asc' ? diff : -diff
+}
+
+function matchesHealthListFilters<T extends HealthListItemLike>(
+  item: T,
+  state: HealthListFilterState,
+  accessor: HealthListItemAccessor<T>,
+  platformItemIds: Set<number> | null,
+): boolean {
+  if (state.status !== null && item.status !== state.status) return false
+  if (platformItemIds && !platformItemIds.has(accessor.getId(item))) return false
+
+  const keyword = state.search.trim().toLowerCase()
+  if (!keyword) return true
+  return accessor.getSearchTexts(item).some((text) => text && text.toLowerCase().includes(keyword))
+}
+
+/**
+ * 判断后端返回的一页数据是否已按筛选条件过滤并排序
+ * 用于识别不支持筛选参数的后端，以便回退到本地筛选
+ * @param items 后端返回的列表项
+ * @param state 筛选状态
+ * @param accessor 列表项读取方式
+ * @param platformItemIds 所选平台下的资源 ID，未筛选平台时为 null
+ */
+export function isHealthListResultFiltered<T extends HealthListItemLike>(
+  items: T[],
+  state: HealthListFilterState,
+  accessor: HealthListItemAccessor<T>,
+  platformItemIds: Set<number> | null,
+): boolean {
+  if (!items.every((item) => matchesHealthListFilters(item, state, accessor, platformItemIds))) {
+    return false
+  }
+  return items.every((item, index) => {
+    const previous = items[index - 1]
+    return !previous || compareHealthListItems(previous, item, state) <= 0
+  })
+}
+
+/**
+ * 在本地按筛选条件过滤并排序
+ * @param items 全部列表项
+ * @param state 筛选状态
+ * @param accessor 列表项读取方式
+ * @param platformItemIds 所选平台下的资源 ID，未筛选平台时为 null
+ */
+export function applyHealthListFilters<T extends HealthListItemLike>(
+  items: T[],
+  state: HealthListFilterState,
+  accessor: HealthListItemAccessor<T>,
+  platformItemIds: Set<number> | null,
+): T[] {
+  return items
+    .filter((item) => matchesHealthListFilters(item, state, accessor, platformItemIds))
+    .sort((a, b) => compareHealthListItems(a, b, state))
+}
@@ -0,0 +1,168 @@
+import type { RequestStat } from '@/types/stats'
+import { getModelMapping } from '@/utils/requestLogUtils'
+
+/**
+ * 延迟分位数（单位：微秒，与日志列表中耗时的换算方式一致）
+ */
+export interface LatencyPercentiles {
+  count: number
+  p50: number
+  p90: number
+  p99: number
+}
+
+/**
+ * 单个模型或平台的延迟统计
+ */
+export interface LatencyGroupStats {
+  key: string
+  platformId: number | null
+  modelName: string | null
+  count: number
+  duration: LatencyPercentiles | null
+  firstByte: LatencyPercentiles | null
+}
+
+export type LatencyMetric = 'duration' | 'first_byte_time'
+export type LatencyDimension = 'model' | 'platform'
+
+/**
+ * 直方图分桶
+ */
+export interface LatencyHistogramBucket {
+  label: string
+  min: number
+  max: number
+  count: number
+}
+
+const MS = 1000
+const SECOND = 1000 * MS
+
+// 直方图分桶边界（微秒），低延迟区间更细
+const HISTOGRAM_EDGES = [
+  0,
+  100 * MS,
+  250 * MS,
+  500 * MS,
+  SECOND,
+  2 * SECOND,
+  5 * SECOND,
+  10 * SECOND,
+  20 * SECOND,
+  30 * SECOND,
+  60 * SECOND,
+]
+
+function formatEdge(value: number): string {
+  return value < SECOND ? `${value / MS}ms` : `${value / SECOND}s`
+}
+
+/**
+ * 计算已升序排列数组的分位数（线性插值）
+ * @param sorted 升序数组
+ * @param p 分位（0-100）
+ */
+export function percentile(sorted: readonly number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  const lowerValue = sorted[lower] ?? 0
+  const upperValue = sorted[upper] ?? lowerValue
+  return lowerValue + (upperValue - lowerValue) * (rank - lower)
+}
+
+/**
+ * 计算 P50 / P90 / P99，样本为空时返回 null
+ */
+export function summarizeLatency(values: readonly number[]): LatencyPercentiles | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+  }
+}
+
+/**
+ * 读取日志的延迟指标，缺失或非正数时返回 null
+ */
+export function getLatencyValue(row: RequestStat, metric: LatencyMetric): number | null {
+  const value = metric === 'duration' ? row.duration : row.first_byte_time
+  return typeof value === 'number' && value > 0 ? value : null
+}
+
+function collectValues(rows: readonly RequestStat[], metric: LatencyMetric): number[] {
+  const values: number[] = []
+  for (const row of rows) {
+    const value = getLatencyValue(row, metric)
+    if (value !== null) values.push(value)
+  }
+  return values
+}
+
+/**
+ * 按模型或平台聚合延迟分位数
+ * @param rows 请求日志
+ * @param dimension 聚合维度
+ * @returns 按请求数降序排列的统计结果
+ */
+export function aggregateLatency(
+  rows: readonly RequestStat[],
+  dimension: LatencyDimension,
+): LatencyGroupStats[] {
+  const buckets = new Map<string, RequestStat[]>()
+
+  for (const row of rows) {
+    const key =
+      dimension === 'model' ? getModelMapping(row).actualModelName || '-' : String(row.platform_id)
+    const list = buckets.get(key)
+    if (list) {
+      list.push(row)
+    } else {
+      buckets.set(key, [row])
+    }
+  }
+
+  return [...buckets.entries()]
+    .map(([key, items]) => ({
+      key,
+      platformId: dimension === 'platform' ? (items[0]?.platform_id ?? null) : null,
+      modelName: dimension === 'model' ? key : null,
+      count: items.length,
+      duration: summarizeLatency(collectValues(items, 'duration')),
+      firstByte: summarizeLatency(collectValues(items, 'first_byte_time')),
+    }))
+    .sort((a, b) => b.count - a.count)
+}
+
+/**
+ * 生成延迟直方图
+ * @param rows 请求日志
+ * @param metric 延迟指标
+ * @returns 固定边界的分桶结果（最后一个桶为开区间）
+ */
+export function buildLatencyHistogram(
+  rows: readonly RequestStat[],
+  metric: LatencyMetric,
+): LatencyHistogramBucket[] {
+  const buckets: LatencyHistogramBucket[] = HISTOGRAM_EDGES.map((min, index) => {
+    const max = HISTOGRAM_EDGES[index + 1] ?? Number.POSITIVE_INFINITY
+    return {
+      label: Number.isFinite(max) ? `${formatEdge(min)}-${formatEdge(max)}` : `≥${formatEdge(min)}`,
+      min,
+      max,
+      count: 0,
+    }
+  })
+
+  for (const value of collectValues(rows, metric)) {
+    const bucket = buckets.find((item) => value >= item.min && value < item.max)
+    if (bucket) bucket.count++
+  }
+
+  return buckets
+}
@@ -0,0 +1,140 @@
+import type { LocationQuery } from 'vue-router'
+import { readQueryValue } from '@/utils/routeQuery'
+
+/**
+ * 使用日志页快捷时间范围
+ */
+export type LogQuickTimeRange = 'today' | '7d' | '30d'
+
+export type BooleanSelectValue = 'true' | 'false' | null
+
+/**
+ * 使用日志页可分享的筛选状态
+ * 快捷时间范围只记录范围标识，打开链接时按当前时间重新计算
+ */
+export interface LogFilterQueryState {
+  success: BooleanSelectValue
+  isStream: BooleanSelectValue
+  isNative: BooleanSelectValue
+  modelName: string | null
+  platformId: number | null
+  quickTime: LogQuickTimeRange | null
+  startTime: number | null
+  endTime: number | null
+  page: number
+  pageSize: number
+}
+
+const QUICK_TIME_RANGES: readonly LogQuickTimeRange[] = ['today', '7d', '30d']
+
+function readBooleanSelect(query: LocationQuery, key: string): BooleanSelectValue {
+  const value = readQueryValue(query, key)
+  return value === 'true' || value === 'false' ? value : null
+}
+
+function readPositiveInt(query: LocationQuery, key: string): number | null {
+  const value = readQueryValue(query, key)
+  if (!value || !/^\d+$/.test(value)) return null
+  const parsed = parseInt(value, 10)
+  return parsed > 0 ? parsed : null
+}
+
+function readTimestamp(query: LocationQuery, key: string): number | null {
+  const value = readQueryValue(query, key)
+  if (!value) return null
+  const parsed = new Date(value).getTime()
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * 从路由查询参数解析筛选状态，非法值回退为默认值
+ * @param query 路由查询参数
+ * @param defaults 默认分页设置与允许的每页条数
+ * @returns 筛选状态
+ */
+export function parseLogFilterQuery(
+  query: LocationQuery,
+  defaults: { pageSize: number; pageSizes: readonly number[] },
+): LogFilterQueryState {
+  const range = readQueryValue(query, 'range')
+  const quickTime = QUICK_TIME_RANGES.find((item) => item === range) ?? null
+  const pageSize = readPositiveInt(query, 'size')
+
+  return {
+    success: readBooleanSelect(query, 'success'),
+    isStream: readBooleanSelect(query, 'stream'),
+    isNative: readBooleanSelect(query, 'native'),
+    modelName: readQueryValue(query, 'model'),
+    platformId: readPositiveInt(query, 'platform'),
+    quickTime,
+    startTime: quickTime ? null : readTimestamp(query, 'start'),
+    endTime: quickTime ? null : readTimestamp(query, 'end'),
+    page: readPositiveInt(query, 'page') ?? 1,
+    pageSize:
+      pageSize !== null && defaults.pageSizes.includes(pageSize) ? pageSize : defaults.pageSize,
+  }
+}
+
+/**
+ * 将筛选状态序列化为路由查询参数，省略空值与默认分页
+ * @param state 筛选状态
+ * @param defaultPageSize 默认每页条数
+ * @returns 路由查询参数
+ */
+export function serializeLogFilterQuery(
+  state: LogFilterQueryState,
+  defaultPageSize: number,
+): Record<string, string> {
+  const query: Record<string, string> = {}
+
+  if (state.success !== null) query.success = state.success
+  if (state.isStream !== null) query.stream = state.isStream
+  if (state.isNative !== null) query.native = state.isNative
+  if (state.modelName) query.model = state.modelName
+  if (state.platformId !== null) query.platform = String(state.platformId)
+
+  if (state.quickTime) {
+    query.range = state.quickTime
+  } else {
+    if (state.startTime !== null) query.start = new Date(state.startTime).toISOString()
+    if (state.endTime !== null) query.end = new Date(state.endTime).toISOString()
+  }
+
+  if (state.page > 1) query.page = String(state.page)
+  if (state.pageSize !== defaultPageSize) query.size = String(state.pageSize)
+
+  return query
+}
+
+const QUICK_TIME_LABELS: Record<LogQuickTimeRange, string> = {
+  today: '今天',
+  '7d': '最近 7 天',
+  '30d': '最近 30 天',
+}
+
+/**
+ * 生成筛选查询参数的可读描述（用于预设列表展示）
+ * @param query 序列化后的筛选查询参数
+ * @returns 每个筛选条件一条描述
+ */
+export function describeLogFilterQuery(query: Record<string, string>): string[] {
+  const descriptions: string[] = []
+  const formatTime = (value: string) => new Date(value).toLocaleString('zh-CN')
+
+  if (query.success) descriptions.push(`状态：${query.success === 'true' ? '成功' : '失败'}`)
+  if (query.stream) descriptions.push(query.stream === 'true' ? '流式请求' : '非流式请求')
+  if (query.native) descriptions.push(query.native === 'true' ? '仅原生' : '仅非原生')
+  if (query.model) descriptions.push(`模型：${query.model}`)
+  if (query.platform) descriptions.push(`平台 ID：${query.platform}`)
+
+  const quickTime = QUICK_TIME_RANGES.find((item) => item === query.range)
+  if (quickTime) {
+    descriptions.push(`时间：${QUICK_TIME_LABELS[quickTime]}`)
+  } else if (query.start || query.end) {
+    const start = query.start ? formatTime(query.start) : '-'
+    const end = query.end ? formatTime(query.end) : '-'
+    descriptions.push(`时间：${start} - ${end}`)
+  }
+
+  return descriptions
+}
@@ -0,0 +1,177 @@
+import type { ModelStatusThresholdRule, ModelStatusThresholds } from '@/types/modelStatus'
+import type { ModelStatusItem, ModelStatusPoint } from '@/types/stats'
+import { matchModelPattern } from '@/utils/pricing'
+
+export type ModelHealthStatus = 'normal' | 'warning' | 'error' | 'no_data'
+
+export const DEFAULT_MODEL_STATUS_THRESHOLDS: ModelStatusThresholds = {
+  normal_rate: 97,
+  warning_rate: 90,
+  min_requests: 1,
+}
+
+/**
+ * 规整阈值：清空或非法的值回退为默认值，百分比限制在 0-100，最少请求数取非负整数
+ * 警告阈值高于正常阈值时按正常阈值处理，避免出现无法命中的警告区间
+ * @param thresholds 待规整的阈值（可能来自输入框清空后的 null 或 localStorage 中的旧数据）
+ * @param fallback 回退值
+ */
+export function normalizeThresholds(
+  thresholds: Partial<Record<keyof ModelStatusThresholds, unknown>> | null | undefined,
+  fallback: ModelStatusThresholds = DEFAULT_MODEL_STATUS_THRESHOLDS,
+): ModelStatusThresholds {
+  const pick = (value: unknown, defaultValue: number, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value)
+      ? Math.min(max, Math.max(min, value))
+      : defaultValue
+  const normalRate = pick(thresholds?.normal_rate, fallback.normal_rate, 0, 100)
+  return {
+    normal_rate: normalRate,
+    warning_rate: Math.min(
+      normalRate,
+      pick(thresholds?.warning_rate, fallback.warning_rate, 0, 100),
+    ),
+    min_requests: Math.floor(
+      pick(thresholds?.min_requests, fallback.min_requests, 0, Number.MAX_SAFE_INTEGER),
+    ),
+  }
+}
+
+export const STATUS_META: Record<
+  ModelHealthStatus,
+  { label: string; blockColor: string; tagType: 'success' | 'warning' | 'error' | 'default' }
+> = {
+  normal: { label: '正常', blockColor: '#14b87a', tagType: 'success' },
+  warning: { label: '警告', blockColor: '#f2a007', tagType: 'warning' },
+  error: { label: '异常', blockColor: '#f44767', tagType: 'error' },
+  no_data: { label: '无数据', blockColor: '#c7cbd6', tagType: 'default' },
+}
+
+export interface ModelStatusPointView extends ModelStatusPoint {
+  successRate: number
+  status: ModelHealthStatus
+}
+
+export interface ModelStatusView extends ModelStatusItem {
+  successRate: number
+  status: ModelHealthStatus
+  pointsView: ModelStatusPointView[]
+}
+
+export function calculateSuccessRate(successCount: number, requestCount: number): number {
+  if (requestCount <= 0) {
+    return 0
+  }
+  return successCount / requestCount
+}
+
+export function resolveStatus(
+  rate: number,
+  requestCount: number,
+  thresholds: ModelStatusThresholds = DEFAULT_MODEL_STATUS_THRESHOLDS,
+): ModelHealthStatus {
+  if (requestCount <= 0 || requestCount < thresholds.min_requests) {
+    return 'no_data'
+  }
+  // 以比例比较，rate * 100 的浮点误差会让恰好落在阈值上的成功率（如 57/100）低一级
+  if (rate >= thresholds.normal_rate / 100) {
+    return 'normal'
+  }
+  if (rate >= thresholds.warning_rate / 100) {
+    return 'warning'
+  }
+  return 'error'
+}
+
+/**
+ * 查找模型适用的阈值规则
+ * @param rules 阈值规则
+ * @param modelName 模型名称
+ * @returns 按顺序匹配的第一条规则，未匹配时返回 null
+ */
+export function findThresholdRule(
+  rules: readonly ModelStatusThresholdRule[],
+  modelName: string,
+): ModelStatusThresholdRule | null {
+  return rules.find((rule) => matchModelPattern(rule.pattern, modelName)) ?? null
+}
+
+/**
+ * 根据原始数据点计算模型与各数据点的成功率和状态
+ * @param item 模型状态数据
+ * @param points 参与计算的数据点（缩放时为子区间）
+ * @param thresholds 该模型适用的分级阈值
+ */
+export function buildModelStatusView(
+  item: ModelStatusItem,
+  points: ModelStatusPoint[] = item.points,
+  thresholds: ModelStatusThresholds = DEFAULT_MODEL_STATUS_THRESHOLDS,
+): ModelStatusView {
+  const totalRequests = points.reduce((sum, point) => sum + point.request_count, 0)
+  const successCount = points.reduce((sum, point) => sum + point.success_count, 0)
+  const successRate = calculateSuccessRate(successCount, totalRequests)
+
+  return {
+    ...item,
+    total_requests: totalRequests,
+    success_count: successCount,
+    successRate,
+    status: resolveStatus(successRate, totalRequests, thresholds),
+    pointsView: points.map((point) => {
+      const pointSuccessRate = calculateSuccessRate(point.success_count, point.request_count)
+      return {
+        ...point,
+        successRate: pointSuccessRate,
+        status: resolveStatus(pointSuccessRate, point.request_count, thresholds),
+      }
+    }),
+  }
+}
+
+/**
+ * 计算数据点覆盖的时间区间
+ * 以下一个数据点的时间作为结束时间，最后一个数据点以窗口结束时间为准
+ * @param points 按时间升序排列的完整数据点（不要传入缩放后筛选的子集，否则末尾区间会被延伸到窗口结束）
+ * @param index 数据点下标
+ * @param windowEnd 窗口结束时间
+ * @returns 起止时间戳（毫秒）
+ */
+export function getPointTimeRange(
+  points: readonly ModelStatusPoint[],
+  index: number,
+  windowEnd: string,
+): { start: number; end: number } {
+  const point = points[index]
+  const start = point ? new Date(point.timestamp).getTime() : NaN
+  const next = points[index + 1]
+  if (next) {
+    return { start, end: new Date(next.timestamp).getTime() }
+  }
+
+  const previous = points[index - 1]
+  const windowEndTime = new Date(windowEnd).getTime()
+  if (windowEndTime > start) {
+    return { start, end: windowEndTime }
+  }
+  // 窗口结束时间不可用时沿用上一个区间的长度
+  const span = previous ? start - new Date(previous.timestamp).getTime() : 0
+  return { start, end: start + span }
+}
+
+/**
+ * 生成跳转到使用日志页的查询参数（按模型与时间范围筛选）
+ * @param modelName 模型名称
+ * @param start 开始时间戳
+ * @param end 结束时间戳
+ */
+export function buildModelLogsQuery(
+  modelName: string,
+  start: number,
+  end: number,
+): Record<string, string> {
+  return {
+    model: modelName,
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+  }
+}
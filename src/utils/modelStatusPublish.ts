@@ -0,0 +1,157 @@
+/**
+ * 模型状态公开页生成
+ * 生成不依赖接口与脚本的静态 HTML 快照，样式与色块均内联，可直接分享给无管理权限的用户
+ */
+import { calculateSuccessRate, STATUS_META, type ModelStatusView } from '@/utils/modelStatus'
+
+/**
+ * 公开页生成选项
+ * @property {string} title - 页面标题
+ * @property {string} rangeLabel - 时间窗口名称，例如 24 小时
+ * @property {string} windowStart - 窗口开始时间
+ * @property {string} windowEnd - 窗口结束时间
+ * @property {ModelStatusView[]} models - 要发布的模型
+ * @property {Map<string, string[]> | null} platformNames - 各模型的服务平台名称，为 null 时不展示平台
+ * @property {Date} generatedAt - 生成时间
+ */
+export interface ModelStatusPublishOptions {
+  title: string
+  rangeLabel: string
+  windowStart: string
+  windowEnd: string
+  models: ModelStatusView[]
+  platformNames: Map<string, string[]> | null
+  generatedAt: Date
+}
+
+// 单个色块的宽度与间距（SVG 坐标）
+const BLOCK_WIDTH = 8
+const BLOCK_GAP = 2
+const BLOCK_HEIGHT = 28
+
+const PAGE_STYLE = `
+* { box-sizing: border-box; }
+body { margin: 0; padding: 32px 16px; background: #f5f7fb; color: #102a54;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; }
+main { max-width: 960px; margin: 0 auto; }
+h1 { margin: 0; font-size: 28px; }
+.summary { margin: 8px 0 24px; color: #6d7e9a; }
+.overall { display: flex; align-items: baseline; gap: 12px; padding: 20px 24px; margin-bottom: 20px;
+  background: #fff; border-radius: 12px; }
+.overall strong { font-size: 32px; }
+.legend { display: flex; gap: 14px; flex-wrap: wrap; margin-bottom: 16px; font-size: 13px; color: #5f7191; }
+.legend span { display: inline-flex; align-items: center; gap: 6px; }
+.legend i { width: 10px; height: 10px; border-radius: 50%; display: inline-block; }
+.model { padding: 18px 20px 14px; margin-bottom: 16px; background: #fff; border-radius: 12px; }
+.model-top { display: flex; justify-content: space-between; align-items: center; gap: 12px;
+  margin-bottom: 10px; flex-wrap: wrap; }
+.model-name { font-weight: 700; }
+.tag { margin-left: 8px; padding: 2px 8px; border-radius: 999px; font-size: 12px; color: #fff; }
+.rate { color: #5f7191; font-size: 14px; }
+.rate strong { color: #102a54; }
+.platforms { margin-top: 6px; color: #7d8ba4; font-size: 12px; }
+svg { display: block; width: 100%; height: ${BLOCK_HEIGHT}px; }
+.axis { display: flex; justify-content: space-between; margin-top: 6px; color: #7d8ba4; font-size: 11px; }
+footer { margin-top: 24px; text-align: center; color: #94a0b6; font-size: 12px; }
+`
+
+/**
+ * 转义 HTML 文本，防止模型名称等内容破坏页面结构
+ * @param value 原始文本
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatTime(timestamp: string | Date): string {
+  return new Date(timestamp).toLocaleString('zh-CN', {
+    hour12: false,
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`
+}
+
+// 每个数据点一个矩形，<title> 在浏览器中作为悬停提示，无需脚本
+function renderUptimeBar(model: ModelStatusView): string {
+  const count = Math.max(model.pointsView.length, 1)
+  const width = count * (BLOCK_WIDTH + BLOCK_GAP) - BLOCK_GAP
+  const rects = model.pointsView
+    .map((point, index) => {
+      const meta = STATUS_META[point.status]
+      const tooltip = `${formatTime(point.timestamp)} · ${meta.label} · 成功率 ${formatPercent(point.successRate)} · ${point.request_count} 请求`
+      return `<rect x="${index * (BLOCK_WIDTH + BLOCK_GAP)}" y="0" width="${BLOCK_WIDTH}" height="${BLOCK_HEIGHT}" rx="2" fill="${meta.blockColor}"><title>${escapeHtml(tooltip)}</title></rect>`
+    })
+    .join('')
+  return `<svg viewBox="0 0 ${width} ${BLOCK_HEIGHT}" preserveAspectRatio="none" role="img" aria-label="${escapeHtml(model.model_name)} 可用性">${rects}</svg>`
+}
+
+function renderModel(model: ModelStatusView, options: ModelStatusPublishOptions): string {
+  const meta = STATUS_META[model.status]
+  const platforms = options.platformNames?.get(model.model_name) ?? []
+  const platformLine =
+    options.platformNames && platforms.length > 0
+      ? `<div class="platforms">服务平台：${platforms.map(escapeHtml).join('、')}</div>`
+      : ''
+
+  return `<section class="model">
+<div class="model-top">
+<div><span class="model-name">${escapeHtml(model.model_name)}</span><span class="tag" style="background:${meta.blockColor}">${meta.label}</span></div>
+<div class="rate"><strong>${formatPercent(model.successRate)}</strong> 成功率 · ${model.total_requests} 请求</div>
+</div>
+${renderUptimeBar(model)}
+<div class="axis"><span>${formatTime(options.windowStart)}</span><span>${formatTime(options.windowEnd)}</span></div>
+${platformLine}
+</section>`
+}
+
+/**
+ * 生成模型状态公开页 HTML
+ * 页面仅包含快照数据，不包含服务器地址、令牌或任何脚本
+ * @param options 生成选项
+ * @returns 完整的 HTML 文档
+ */
+export function buildModelStatusHtml(options: ModelStatusPublishOptions): string {
+  const totalRequests = options.models.reduce((sum, model) => sum + model.total_requests, 0)
+  const successCount = options.models.reduce((sum, model) => sum + model.success_count, 0)
+  const overallRate = calculateSuccessRate(successCount, totalRequests)
+  const title = escapeHtml(options.title)
+
+  const legend = (['normal', 'warning', 'error', 'no_data'] as const)
+    .map(
+      (status) =>
+        `<span><i style="background:${STATUS_META[status].blockColor}"></i>${STATUS_META[status].label}</span>`,
+    )
+    .join('')
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<p class="summary">最近 ${escapeHtml(options.rangeLabel)} · ${options.models.length} 个模型 · 快照生成于 ${formatTime(options.generatedAt)}</p>
+<div class="overall"><strong>${formatPercent(overallRate)}</strong><span>整体成功率（${totalRequests} 请求）</span></div>
+<div class="legend">${legend}</div>
+${options.models.map((model) => renderModel(model, options)).join('\n')}
+<footer>此页面为静态快照，数据不会自动更新</footer>
+</main>
+</body>
+</html>
+`
+}
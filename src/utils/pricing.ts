@@ -0,0 +1,112 @@
+import type { CostUsage, ModelPriceRule, PricingSettings } from '@/types/pricing'
+
+/**
+ * 花费估算工具函数
+ * 价格单位为每 1M Token，规则按“平台专属优先、列表顺序其次”的顺序匹配
+ */
+
+const TOKENS_PER_UNIT = 1_000_000
+
+export const CURRENCY_OPTIONS = [
+  { label: '美元 (USD)', value: 'USD' },
+  { label: '人民币 (CNY)', value: 'CNY' },
+  { label: '欧元 (EUR)', value: 'EUR' },
+]
+
+const patternCache = new Map<string, RegExp>()
+
+/**
+ * 将通配符模式转换为正则（* 匹配任意字符，? 匹配单个字符）
+ */
+function compilePattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern)
+  if (!regex) {
+    const source = pattern
+      .trim()
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.')
+    regex = new RegExp(`^${source}$`, 'i')
+    patternCache.set(pattern, regex)
+  }
+  return regex
+}
+
+/**
+ * 判断模型名称是否匹配规则模式
+ * @param pattern 匹配模式
+ * @param modelName 模型名称
+ */
+export function matchModelPattern(pattern: string, modelName: string): boolean {
+  if (!pattern.trim()) return false
+  return compilePattern(pattern).test(modelName)
+}
+
+function matchesPlatform(rule: ModelPriceRule, usage: CostUsage): boolean {
+  if (rule.platform_id === null) return true
+  if (usage.platformId !== undefined && usage.platformId !== null) {
+    return rule.platform_id === usage.platformId
+  }
+  // 仪表盘平台排行只返回平台名称
+  return !!usage.platformName && rule.platform_name === usage.platformName
+}
+
+/**
+ * 查找适用的价格规则
+ * @param rules 价格规则
+ * @param usage 用量信息；未提供模型名称时仅匹配模式为 * 的规则
+ * @returns 匹配的规则，未匹配时返回 null
+ */
+export function findPriceRule(
+  rules: readonly ModelPriceRule[],
+  usage: CostUsage,
+): ModelPriceRule | null {
+  const matchesModel = (rule: ModelPriceRule) =>
+    usage.modelName ? matchModelPattern(rule.pattern, usage.modelName) : rule.pattern.trim() === '*'
+
+  const candidates = rules.filter((rule) => matchesModel(rule) && matchesPlatform(rule, usage))
+  return (
+    candidates.find((rule) => rule.platform_id !== null) ??
+    candidates.find((rule) => rule.platform_id === null) ??
+    null
+  )
+}
+
+/**
+ * 按价格规则估算花费
+ * @param settings 价格设置
+ * @param usage 用量信息
+ * @returns 估算花费，未匹配到价格规则时返回 null
+ */
+export function estimateCost(settings: PricingSettings, usage: CostUsage): number | null {
+  const rule = findPriceRule(settings.rules, usage)
+  if (!rule) return null
+
+  const promptTokens = usage.promptTokens ?? 0
+  const completionTokens = usage.completionTokens ?? 0
+  return (
+    (promptTokens / TOKENS_PER_UNIT) * rule.input_price +
+    (completionTokens / TOKENS_PER_UNIT) * rule.output_price
+  )
+}
+
+/**
+ * 格式化花费金额，小额保留更多小数位
+ * @param value 金额
+ * @param currency 货币代码
+ */
+export function formatCost(value: number | null | undefined, currency: string): string {
+  if (value === null || value === undefined) return '-'
+  const fractionDigits = value !== 0 && Math.abs(value) < 0.01 ? 4 : 2
+  try {
+    return new Intl.NumberFormat('zh-CN', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(value)
+  } catch {
+    // 非法货币代码时退化为纯数字
+    return `${value.toFixed(fractionDigits)} ${currency}`
+  }
+}
@@ -0,0 +1,242 @@
+import type { RequestStat } from '@/types/stats'
+
+/**
+ * 请求类型解析结果
+ */
+export interface RequestTypeInfo {
+  isNative: boolean
+  isStream: boolean
+  streamLabel: string
+}
+
+/**
+ * 解析请求类型（流式 / 原生）
+ * 优先使用 is_stream / is_native 新字段，缺失时回退解析旧的 request_type 字段
+ * @param row 请求日志
+ * @returns 请求类型信息
+ */
+export function parseRequestType(row: RequestStat): RequestTypeInfo {
+  // 优先使用新字段
+  if (row.is_stream !== undefined || row.is_native !== undefined) {
+    const isStream = !!row.is_stream
+    const isNative = !!row.is_native
+
+    return {
+      isNative,
+      isStream,
+      streamLabel: isStream ? '流式' : '非流式',
+    }
+  }
+
+  // 向后兼容：解析旧的 request_type 字段
+  const normalizedType = (row.request_type || '').toLowerCase()
+  const isNative = normalizedType.endsWith('-native')
+  const baseType = normalizedType.replace(/-native$/, '')
+  const isStream = baseType === 'stream'
+
+  return {
+    isNative,
+    isStream,
+    streamLabel: isStream ? '流式' : '非流式',
+  }
+}
+
+export type ErrorTagType = 'default' | 'info' | 'warning' | 'error'
+
+export interface ErrorDisplayTag {
+  label: string
+  type: ErrorTagType
+}
+
+export interface ErrorDisplayMeta {
+  show: boolean
+  summary: string
+  tooltipText: string
+  tags: ErrorDisplayTag[]
+}
+
+/**
+ * 规范化错误文本，空白字符串视为无值
+ */
+export function normalizeErrorText(value: string | null | undefined): string | null {
+  if (!value) return null
+  const text = value.trim()
+  return text.length > 0 ? text : null
+}
+
+/**
+ * 生成失败请求的错误展示信息（摘要、标签与悬浮提示）
+ * @param row 请求日志
+ * @returns 错误展示信息，成功请求返回 show=false
+ */
+export function getRequestErrorDisplay(row: RequestStat): ErrorDisplayMeta {
+  if (row.success) {
+    return {
+      show: false,
+      summary: '',
+      tooltipText: '',
+      tags: [],
+    }
+  }
+
+  const errorCode = normalizeErrorText(row.error_code)
+  const errorFrom = normalizeErrorText(row.error_from)
+  const errorLevel = normalizeErrorText(row.error_level)
+  const upstreamErrorType = normalizeErrorText(row.upstream_error_type)
+  const upstreamErrorCode = normalizeErrorText(row.upstream_error_code)
+  const upstreamErrorParam = normalizeErrorText(row.upstream_error_param)
+  const upstreamRequestId = normalizeErrorText(row.upstream_request_id)
+  const upstreamErrorMessage = normalizeErrorText(row.upstream_error_message)
+  const responseBodyRaw = normalizeErrorText(row.response_body_raw)
+  const causeMessage = normalizeErrorText(row.cause_message)
+  const fallbackErrorMessage = normalizeErrorText(row.error_msg)
+  const httpStatus = typeof row.http_status === 'number' ? row.http_status : null
+
+  const tags: ErrorDisplayTag[] = []
+  if (httpStatus !== null) {
+    tags.push({ label: `HTTP ${httpStatus}`, type: 'warning' })
+  }
+  if (errorFrom) {
+    tags.push({ label: errorFrom, type: 'info' })
+  }
+  if (errorCode) {
+    tags.push({ label: errorCode, type: 'error' })
+  } else if (upstreamErrorCode) {
+    tags.push({ label: upstreamErrorCode, type: 'error' })
+  }
+
+  const compactTags = tags.slice(0, 3)
+
+  let summary = upstreamErrorMessage || responseBodyRaw || causeMessage || fallbackErrorMessage
+
+  if (!summary) {
+    summary = '失败但未返回错误详情'
+  }
+
+  const tooltipDetails: string[] = []
+  if (errorCode) tooltipDetails.push(`error_code: ${errorCode}`)
+  if (errorLevel) tooltipDetails.push(`error_level: ${errorLevel}`)
+  if (httpStatus !== null) tooltipDetails.push(`http_status: ${httpStatus}`)
+  if (errorFrom) tooltipDetails.push(`error_from: ${errorFrom}`)
+  if (upstreamErrorType) tooltipDetails.push(`upstream_error_type: ${upstreamErrorType}`)
+  if (upstreamErrorCode) tooltipDetails.push(`upstream_error_code: ${upstreamErrorCode}`)
+  if (upstreamErrorParam) tooltipDetails.push(`upstream_error_param: ${upstreamErrorParam}`)
+  if (upstreamRequestId) tooltipDetails.push(`upstream_request_id: ${upstreamRequestId}`)
+  if (responseBodyRaw && responseBodyRaw !== summary) {
+    tooltipDetails.push(`response_body_raw: ${responseBodyRaw}`)
+  }
+  if (causeMessage && causeMessage !== summary) {
+    tooltipDetails.push(`cause_message: ${causeMessage}`)
+  }
+  if (fallbackErrorMessage && fallbackErrorMessage !== summary) {
+    tooltipDetails.push(`error_msg(fallback): ${fallbackErrorMessage}`)
+  }
+
+  const tooltipText = [summary, ...tooltipDetails].join('\n')
+
+  return {
+    show: true,
+    summary,
+    tooltipText,
+    tags: compactTags,
+  }
+}
+
+/**
+ * 解析请求的模型映射信息（原始模型名 → 实际模型名）
+ * @param row 请求日志
+ * @returns 原始模型名、实际模型名以及是否发生了映射
+ */
+export function getModelMapping(row: RequestStat): {
+  originalModelName: string
+  actualModelName: string
+  isMapped: boolean
+} {
+  const originalModelName = (row.original_model_name || '').trim()
+  const actualModelName = (row.model_name || '').trim()
+
+  return {
+    originalModelName,
+    actualModelName,
+    isMapped: !!originalModelName && originalModelName !== actualModelName,
+  }
+}
+
+/**
+ * 失败请求分组（按平台、错误码、HTTP 状态码、上游错误类型聚合）
+ */
+export interface RequestErrorGroup {
+  key: string
+  platformId: number
+  errorCode: string | null
+  httpStatus: number | null
+  upstreamErrorType: string | null
+  count: number
+  firstSeen: string
+  lastSeen: string
+  models: string[]
+  sampleMessage: string
+  items: RequestStat[]
+}
+
+/**
+ * 将失败请求按 (platform_id, error_code, http_status, upstream_error_type) 聚合
+ * @param rows 请求日志（成功请求会被忽略）
+ * @returns 按出现次数降序排列的分组，组内日志按时间倒序
+ */
+export function groupRequestErrors(rows: RequestStat[]): RequestErrorGroup[] {
+  const groups = new Map<string, RequestErrorGroup>()
+
+  for (const row of rows) {
+    if (row.success) continue
+
+    const errorCode = normalizeErrorText(row.error_code)
+    const httpStatus = typeof row.http_status === 'number' ? row.http_status : null
+    const upstreamErrorType = normalizeErrorText(row.upstream_error_type)
+    const key = JSON.stringify([row.platform_id, errorCode, httpStatus, upstreamErrorType])
+
+    let group = groups.get(key)
+    if (!group) {
+      group = {
+        key,
+        platformId: row.platform_id,
+        errorCode,
+        httpStatus,
+        upstreamErrorType,
+        count: 0,
+        firstSeen: row.timestamp,
+        lastSeen: row.timestamp,
+        models: [],
+        sampleMessage: '',
+        items: [],
+      }
+      groups.set(key, group)
+    }
+
+    group.count++
+    group.items.push(row)
+    if (new Date(row.timestamp).getTime() < new Date(group.firstSeen).getTime()) {
+      group.firstSeen = row.timestamp
+    }
+    if (new Date(row.timestamp).getTime() > new Date(group.lastSeen).getTime()) {
+      group.lastSeen = row.timestamp
+    }
+
+    const modelName = getModelMapping(row).originalModelName || row.model_name
+    if (modelName && !group.models.includes(modelName)) {
+      group.models.push(modelName)
+    }
+  }
+
+  return [...groups.values()]
+    .map((group) => {
+      group.items.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      // 使用最近一次失败的错误摘要作为示例
+      group.sampleMessage = group.items[0] ? getRequestErrorDisplay(group.items[0]).summary : ''
+      return group
+    })
+    .sort(
+      (a, b) =>
+        b.count - a.count || new Date(b.lastSeen).getTime() - new Date(a.lastSeen).getTime(),
+    )
+}
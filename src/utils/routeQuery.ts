@@ -0,0 +1,24 @@
+import type { LocationQuery } from 'vue-router'
+
+/**
+ * 读取单个路由查询参数（数组取第一个值），空字符串视为无值
+ * @param query 路由查询参数
+ * @param key 参数名
+ */
+export function readQueryValue(query: LocationQuery, key: string): string | null {
+  const raw = query[key]
+  const value = Array.isArray(raw) ? raw[0] : raw
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
+
+/**
+ * 比较序列化后的查询参数与当前路由查询参数是否一致
+ * @param next 序列化后的查询参数
+ * @param current 当前路由查询参数
+ */
+export function isSameRouteQuery(next: Record<string, string>, current: LocationQuery): boolean {
+  const currentKeys = Object.keys(current).filter((key) => readQueryValue(current, key) !== null)
+  const nextKeys = Object.keys(next)
+  if (currentKeys.length !== nextKeys.length) return false
+  return nextKeys.every((key) => readQueryValue(current, key) === next[key])
+}
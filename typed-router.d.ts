@@ -121,6 +121,13 @@ declare module 'vue-router/auto-routes' {
       Record<never, never>,
       | never
     >,
+    '/server-overview': RouteRecordInfo<
+      '/server-overview',
+      '/server-overview',
+      Record<never, never>,
+      Record<never, never>,
+      | never
+    >,
   }
 
   /**
@@ -217,6 +224,12 @@ declare module 'vue-router/auto-routes' {
       views:
         | never
     }
+    'src/pages/server-overview.vue': {
+      routes:
+        | '/server-overview'
+      views:
+        | never
+    }
   }
 
   /**